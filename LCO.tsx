@@ -1,5 +1,101 @@
 'use client'
-import React, { useState, useEffect, useRef, useCallback, useImperativeHandle, forwardRef } from 'react';
+import React, { useState, useEffect, useRef, useImperativeHandle, useSyncExternalStore, forwardRef } from 'react';
+import {
+  createLiveCommentsStore,
+  createInMemoryFirebaseAdapter,
+  createWebSocketTransport,
+  createServerSentEventsTransport,
+  createLongPollingTransport,
+  createFirebaseTransport,
+  createInMemoryTransport,
+  createContentFilter,
+  createRateLimiter,
+  tokenizeMessage,
+  XSS_CORPUS,
+  defaultRolePermissions,
+  moderationCapabilities,
+  resolvePermissions,
+  isEmoteOnly,
+  parseProtocolMessage,
+  encodeProtocolMessage,
+  PROTOCOL_VERSION,
+  moderationReasons,
+  toMentionHandle,
+  consentPurposes,
+  resolveMediaElement,
+  withConfigDefaults
+} from './LCOCore';
+import type {
+  Comment,
+  UserRole,
+  Capability,
+  UserIdentity,
+  FirebaseCommentsAdapter,
+  FirebaseBackendConfig,
+  ModerationAction,
+  ChannelModes,
+  ModerationReason,
+  UserModerationAction,
+  ModerationOptions,
+  PinOptions,
+  PinnedComment,
+  ModerationQueueItem,
+  TransportStatus,
+  ModerationPayload,
+  PresencePayload,
+  TypingPayload,
+  AckPayload,
+  ServerErrorPayload,
+  HistoryPayload,
+  AuthPayload,
+  AuthResultPayload,
+  DataSubjectRequestPayload,
+  DataExportPayload,
+  ErasureResultPayload,
+  ReactionPayload,
+  ReactionCountsPayload,
+  HeartbeatPayload,
+  RoomPayload,
+  HistoryRequestPayload,
+  ProtocolMessage,
+  ProtocolError,
+  CommentTransportHandlers,
+  CommentTransport,
+  FilterAction,
+  FilterRule,
+  FilterMatch,
+  FilterVerdict,
+  ContentFilterConfig,
+  RateLimitConfig,
+  RateLimitVerdict,
+  ConsentPurpose,
+  ConsentRecord,
+  ConsentManager,
+  PrivacyEvent,
+  UserDataExport,
+  ErasureResult,
+  ThemePreset,
+  ThemeTokens,
+  CustomTheme,
+  ThemeSetting,
+  DanmakuOptions,
+  EmoteSet,
+  PresenceState,
+  PresenceChange,
+  RichTextConfig,
+  RichTextToken,
+  LiveCommentsConfig,
+  SendCommentOptions,
+  LiveCommentsState,
+  SendRestriction,
+  LiveCommentsActions,
+  LiveCommentsStore,
+  ProtocolParseResult,
+  ReconnectOptions,
+  WebSocketTransportOptions,
+  HttpTransportOptions,
+  InMemoryTransport
+} from './LCOCore';
 
 /**
  * LiveCommentsOverlay - React TypeScript component for streaming video comments
@@ -9,120 +105,920 @@ import React, { useState, useEffect, useRef, useCallback, useImperativeHandle, f
  * 1. Import this component into your React project
  * 2. Pass configuration via props
  * 3. Attach to video player using ref
+ * 4. Pass the <video> element (or its container) as `playerElement` to record media time,
+ *    and set `playbackMode: 'replay'` to replay recorded comments in sync with the video
+ * 5. For a custom UI, call `useLiveComments(config, { playerElement })` instead: it returns the
+ *    comments, moderation queue, connection and presence state plus every action, without rendering.
+ *    `createLiveCommentsStore` is the same core without React (`subscribe` / `getState`, `start` / `stop`);
+ *    it lives in `LCOCore.ts` with the transports and the protocol, and this file only adds the React layer
+ * 6. To restyle parts of the default overlay, pass `classNames`, or replace a part with `renderComment`,
+ *    `renderAdminControls`, `renderConsent`, `renderInput` or `renderEmptyState`; slots receive the
+ *    same state and callbacks as the built-in part, so behavior (moderation checks, consent, mentions) is kept
+ * 
+ * Backends:
+ * - WebSocket (default): set `websocketUrl`; `server/LCOServer.ts` is a reference server that speaks
+ *   this protocol (`npx tsx server/LCOServer.ts` listens on ws://localhost:8080) and shares the
+ *   protocol, filter, rate-limit and permission helpers through the React-free `LCOCore.ts`
+ * - Custom: pass any `CommentTransport` as `transport` (SSE, long-polling and in-memory ship with `LCOCore.ts`)
+ * - Firebase: set `backend: 'firebase'` and `firebaseConfig` (Firestore or Realtime Database,
+ *   requires the `firebase` package), or pass an in-memory adapter for tests and demos
+ * - Rooms: several overlays can share one backend with a `roomId` each; comments, history,
+ *   pins, channel modes, the moderation queue and rate limits are scoped to the room, and
+ *   changing `roomId` switches rooms on the open connection
+ * 
+ * Identity:
+ * - Pass the signed-in viewer as `currentUser`, and an `authTokenProvider` when the server
+ *   verifies identity; the transport sends an 'auth' handshake on every (re)connect
+ * - Without a `currentUser`, the overlay posts under one guest identity for the whole session
+ * - Moderation UI and actions are gated by capabilities derived from the roles the server
+ *   confirms in its 'auth_ok' reply (never from client config); see `rolePermissions`
+ * - User-level moderation (timeout, ban, shadow-ban, purge) and channel modes (slow,
+ *   followers-only, subscribers-only, emote-only) are available through the ref
+ * - Moderators pin a comment above the stream (`pinComment`, for a duration or until `unpinComment`);
+ *   broadcasters can pin an announcement with `postAnnouncement`. Pins are synchronized to every viewer
+ * 
+ * Conversation:
+ * - Replies reference their parent through `replyTo` (`sendComment(text, { replyTo })` or the Reply button)
+ * - "@Name" mentions autocomplete from recent chatters; comments mentioning the current user are
+ *   highlighted and reported through `onMentioned`
+ * - Emoji reactions (`reactToComment`) are counted by the server and synchronized to every viewer
+ * - A live viewer count (`showViewerCount`) and "… is typing" indicators (`typingIndicators`) come from
+ *   the server's presence events; users with 'viewers.list' can open the list of viewers from the count,
+ *   and `onPresenceChange` reports joins, leaves and typing
+ * - Comment text supports custom emote sets (`:name:`), emoji shortcodes, **bold** / *italic* and
+ *   links to allow-listed domains (`richText`); it is tokenized and rendered as React elements, never as HTML
  * 
  * Edge Cases Handled:
- * - Network disconnections with auto-reconnect
- * - Rate limiting and spam prevention
+ * - Own comments appear immediately as pending, turn sent on the server's ack or echo, and
+ *   offer retry/discard when delivery fails (`onCommentSendFailed`)
+ * - Network disconnections: jittered exponential backoff, online/offline and visibility aware,
+ *   heartbeat pings; comments sent while disconnected wait in an outbox (kept on the device
+ *   with storage consent) and are resent on reconnect
+ * - Late joiners: recent history is requested on connect (`historyOnJoin`), and
+ *   `persistentLog` keeps a scrollable log with "load older" pagination
+ * - Rate limiting and spam prevention (token bucket with duplicate suppression, see `rateLimit`;
+ *   server 'rate_limited' errors with `retryAfterMs` extend the cooldown)
  * - Cross-browser compatibility
  * - Mobile responsiveness
  * 
  * Regulatory Considerations:
- * - GDPR: User consent tracking, data minimization, right to erasure
+ * - GDPR: versioned, per-purpose consent records (bump `consentVersion` to re-prompt), withdrawal
+ *   from the overlay's privacy settings, optional CMP integration through `consentManager`,
+ *   `exportUserData` / `requestErasure` on the ref, and `onPrivacyEvent` for audit logs
  * - WCAG 2.1: Keyboard navigation, screen reader support, color contrast
+ *   (built-in themes meet AA contrast; custom themes are checked with `checkThemeContrast`)
+ * 
+ * Theming:
+ * - `theme`: 'default' | 'dark' | 'light' | 'high-contrast' | 'auto' or a custom token object
+ * - Host pages can override any token through CSS custom properties, e.g. `--lco-color-accent`
  */
 
-interface Comment {
-  id: string;
-  username: string;
-  text: string;
-  timestamp: string;
-  highlighted?: boolean;
-  status?: 'normal' | 'quarantined';
+interface ContrastIssue {
+  pair: string;
+  ratio: number;
+  required: number;
+}
+
+interface CommentRenderProps {
+  comment: Comment;
+  parent?: Comment; // The comment this one replies to, when still visible
+  isMentioned: boolean;
+  ownReactions: string[];
+  canReact: boolean; // Delivered and the user consented to comment processing
+  isReactionPickerOpen: boolean;
+  reactionEmojis: string[];
+  richText: RichTextConfig;
+  onReact: (emoji: string) => void;
+  onToggleReactionPicker: () => void;
+  onReply: () => void;
+  onRetry: () => void;
+  onDiscard: () => void;
+  adminControls?: React.ReactNode; // Already rendered, null without moderation capabilities
+  className?: string;
+}
+
+interface AdminControlsRenderProps {
+  comment: Comment;
+  isPinned: boolean;
+  hasPermission: (capability: Capability) => boolean;
+  onModerate: (action: ModerationAction) => void; // Checks the capability again before acting
+  onPin: () => void;
+  className?: string;
+}
+
+interface ConsentRenderProps {
+  consent: ConsentRecord | null; // The current decision, when reviewing it
+  onDecide: (purposes: Partial<Record<ConsentPurpose, boolean>>) => void; // Purposes left out are refused
+  onDownloadData: () => void;
+  onEraseData: () => void; // Asks for confirmation first
+  className?: string;
+}
+
+interface InputRenderProps {
+  inputRef: React.RefObject<HTMLInputElement>; // Attach to keep the Alt+C shortcut and reply focus working
+  value: string;
+  placeholder: string;
+  disabled: boolean; // Timed out, banned or rate limited; `notice` says why
+  notice: SendRestriction | null;
+  replyingTo: Comment | null;
+  onChange: (value: string) => void; // Also drives mention suggestions and typing indicators
+  onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void; // Mention navigation, Enter to send, Escape
+  onBlur: () => void;
+  submit: () => void; // Send the draft, as a reply when replying
+  className?: string;
+}
+
+interface EmptyStateRenderProps {
+  connectionStatus: TransportStatus;
+  isLoadingHistory: boolean;
+  className?: string;
 }
 
-interface LiveCommentsConfig {
-  backend?: 'websocket' | 'firebase';
-  websocketUrl?: string;
-  firebaseConfig?: any;
-  moderationEnabled?: boolean;
-  maxCommentsVisible?: number;
-  commentDisplayDuration?: number;
-  profanityFilter?: boolean;
-  userRole?: 'user' | 'admin';
-  gdprCompliance?: boolean;
-  theme?: 'default' | 'dark' | 'light';
-  onCommentReceived?: (comment: Comment) => void;
-  onCommentFiltered?: (comment: Comment) => void;
-  onModerationAction?: (commentId: string, action: string) => void;
-  onWebSocketConnect?: () => void;
-  onWebSocketDisconnect?: () => void;
+// Added next to the built-in inline styles, which only theme tokens override
+interface LiveCommentsClassNames {
+  log?: string; // The comment list, or the danmaku layer
+  comment?: string;
+  adminControls?: string;
+  pinned?: string;
+  emptyState?: string;
+  inputContainer?: string;
+  input?: string;
+  consent?: string;
+  moderationPanel?: string;
 }
 
 interface LiveCommentsOverlayProps {
   config: LiveCommentsConfig;
   playerElement?: HTMLElement | null;
   className?: string;
+  classNames?: LiveCommentsClassNames;
+  // Render slots replace one part of the overlay and receive the state and actions the built-in part uses
+  renderComment?: (props: CommentRenderProps) => React.ReactNode;
+  renderAdminControls?: (props: AdminControlsRenderProps) => React.ReactNode;
+  renderConsent?: (props: ConsentRenderProps) => React.ReactNode;
+  renderInput?: (props: InputRenderProps) => React.ReactNode;
+  renderEmptyState?: (props: EmptyStateRenderProps) => React.ReactNode; // List mode, while no comment is shown
 }
 
 interface LiveCommentsOverlayRef {
-  sendComment: (message: string) => void;
-  moderateComment: (commentId: string, action: 'highlight' | 'quarantine' | 'delete') => void;
+  sendComment: (message: string, options?: SendCommentOptions) => void;
+  reactToComment: (commentId: string, emoji: string) => void; // Toggles the current user's reaction
+  retryComment: (commentId: string) => void; // Resend a comment whose delivery failed
+  discardComment: (commentId: string) => void;
+  moderateComment: (commentId: string, action: ModerationAction, options?: ModerationOptions) => void;
+  moderateUser: (userId: string, action: UserModerationAction, options?: ModerationOptions) => void;
+  setChannelModes: (modes: ChannelModes) => void;
+  getChannelModes: () => ChannelModes;
+  approveComment: (commentId: string) => void;
+  rejectComment: (commentId: string, reason?: ModerationReason) => void;
+  pinComment: (commentId: string, options?: PinOptions) => void;
+  unpinComment: () => void;
+  postAnnouncement: (text: string, options?: PinOptions) => void; // Pinned message that isn't part of the stream
+  getPinnedComment: () => PinnedComment | null;
+  getRoomId: () => string;
+  getPresence: () => PresenceState;
   getComments: () => Comment[];
-  getModerationQueue: () => Comment[];
-  destroy: () => void;
+  getModerationQueue: () => ModerationQueueItem[];
+  getCurrentUser: () => UserIdentity;
+  hasPermission: (capability: Capability) => boolean;
+  loadOlderComments: () => void;
+  getConsent: () => ConsentRecord | null;
+  updateConsent: (purposes: Partial<Record<ConsentPurpose, boolean>>) => void;
+  withdrawConsent: () => void;
+  exportUserData: () => Promise<UserDataExport>;
+  requestErasure: () => Promise<ErasureResult>;
+  destroy: () => void; // Disconnects; use `requestErasure` to erase the user's data
+}
+
+interface UseLiveCommentsOptions {
+  playerElement?: HTMLElement | null;
+}
+
+type LiveComments = LiveCommentsState & LiveCommentsActions & {
+  sendRestriction: SendRestriction | null; // Re-evaluated every second while a cooldown runs
+};
+
+const maxMentionSuggestions = 5;
+
+const formatViewerCount = (count: number) =>
+  (typeof Intl !== 'undefined' ? new Intl.NumberFormat(undefined, { notation: 'compact' }).format(count) : String(count));
+
+const describeTyping = (users: UserIdentity[]): string => {
+  if (users.length === 0) return '';
+  if (users.length === 1) return `${users[0].displayName} is typing…`;
+  if (users.length === 2) return `${users[0].displayName} and ${users[1].displayName} are typing…`;
+  return 'Several people are typing…';
+};
+
+interface DanmakuLayout {
+  mode: 'scroll' | 'top' | 'bottom';
+  lane: number;
+  startedAt: number; // Danmaku clock (ms), only advances while the player is playing
+  width: number;
+  speed: number; // px per ms, 0 for fixed comments
+}
+
+let textMeasureContext: CanvasRenderingContext2D | null = null;
+
+const estimateTextWidth = (text: string, fontSize: number): number => {
+  if (typeof document !== 'undefined') {
+    textMeasureContext = textMeasureContext || document.createElement('canvas').getContext('2d');
+  }
+  if (textMeasureContext) {
+    textMeasureContext.font = `bold ${fontSize}px Arial, sans-serif`;
+    return Math.ceil(textMeasureContext.measureText(text).width);
+  }
+  return Math.ceil(text.length * fontSize * 0.6);
+};
+
+/**
+ * Whether a new scrolling comment can enter a lane without overlapping or
+ * catching up with the lane's last comment before it leaves the screen
+ */
+const canEnterScrollLane = (
+  last: DanmakuLayout | undefined,
+  now: number,
+  layerWidth: number,
+  speed: number,
+  gap: number
+): boolean => {
+  if (!last) return true;
+  const lastX = layerWidth - (now - last.startedAt) * last.speed;
+  const lastTail = lastX + last.width;
+  if (lastTail + gap > layerWidth) return false;
+  if (speed <= last.speed) return true;
+
+  const timeToCatchUp = (layerWidth - lastTail) / (speed - last.speed);
+  const timeToExit = lastTail / last.speed;
+  return timeToCatchUp >= timeToExit;
+};
+
+/**
+ * Theme presets
+ * Every token is also exposed as a CSS custom property (`--lco-color-accent`, `--lco-font-size`,
+ * `--lco-space-md`, `--lco-radius-lg`...) so the host page can override it from its own stylesheet
+ */
+const themePresets: Record<ThemePreset, ThemeTokens> = {
+  default: {
+    colors: {
+      overlayBackground: 'rgba(0, 0, 0, 0.8)',
+      panelBackground: 'rgba(0, 0, 0, 0.9)',
+      surface: 'rgba(255, 255, 255, 0.1)',
+      text: '#ffffff',
+      mutedText: '#cccccc',
+      accent: '#3d9bff',
+      accentText: '#000000',
+      highlight: '#ffd700',
+      highlightBackground: 'rgba(255, 215, 0, 0.2)',
+      danger: '#dc3545',
+      dangerBackground: 'rgba(220, 53, 69, 0.2)',
+      border: '#ffffff',
+      inputBackground: 'rgba(0, 0, 0, 0.8)',
+      inputText: '#ffffff',
+      fieldBackground: '#222222',
+      fieldBorder: '#666666',
+      bannerBackground: '#333333',
+      bannerText: '#ffffff',
+      danmakuText: '#ffffff',
+      danmakuShadow: '#000000'
+    },
+    fonts: { family: 'Arial, sans-serif', size: '14px', smallSize: '10px' },
+    spacing: { xs: '2px', sm: '5px', md: '10px', lg: '20px' },
+    radii: { sm: '3px', md: '4px', lg: '8px' }
+  },
+  dark: {
+    colors: {
+      overlayBackground: 'rgba(18, 18, 18, 0.92)',
+      panelBackground: 'rgba(18, 18, 18, 0.96)',
+      surface: 'rgba(255, 255, 255, 0.08)',
+      text: '#f1f1f1',
+      mutedText: '#b8b8b8',
+      accent: '#8ab4f8',
+      accentText: '#121212',
+      highlight: '#fdd663',
+      highlightBackground: 'rgba(253, 214, 99, 0.16)',
+      danger: '#f28b82',
+      dangerBackground: 'rgba(242, 139, 130, 0.16)',
+      border: '#9aa0a6',
+      inputBackground: 'rgba(32, 33, 36, 0.95)',
+      inputText: '#f1f1f1',
+      fieldBackground: '#202124',
+      fieldBorder: '#5f6368',
+      bannerBackground: '#202124',
+      bannerText: '#f1f1f1',
+      danmakuText: '#ffffff',
+      danmakuShadow: '#000000'
+    },
+    fonts: { family: 'Arial, sans-serif', size: '14px', smallSize: '10px' },
+    spacing: { xs: '2px', sm: '5px', md: '10px', lg: '20px' },
+    radii: { sm: '3px', md: '4px', lg: '8px' }
+  },
+  light: {
+    colors: {
+      overlayBackground: 'rgba(255, 255, 255, 0.94)',
+      panelBackground: 'rgba(255, 255, 255, 0.98)',
+      surface: 'rgba(0, 0, 0, 0.05)',
+      text: '#1a1a1a',
+      mutedText: '#555555',
+      accent: '#0056b3',
+      accentText: '#ffffff',
+      highlight: '#b8860b',
+      highlightBackground: 'rgba(255, 215, 0, 0.25)',
+      danger: '#b02a37',
+      dangerBackground: 'rgba(220, 53, 69, 0.12)',
+      border: '#1a1a1a',
+      inputBackground: 'rgba(255, 255, 255, 0.96)',
+      inputText: '#1a1a1a',
+      fieldBackground: '#ffffff',
+      fieldBorder: '#767676',
+      bannerBackground: '#f5f5f5',
+      bannerText: '#1a1a1a',
+      danmakuText: '#ffffff',
+      danmakuShadow: '#000000'
+    },
+    fonts: { family: 'Arial, sans-serif', size: '14px', smallSize: '10px' },
+    spacing: { xs: '2px', sm: '5px', md: '10px', lg: '20px' },
+    radii: { sm: '3px', md: '4px', lg: '8px' }
+  },
+  'high-contrast': {
+    colors: {
+      overlayBackground: '#000000',
+      panelBackground: '#000000',
+      surface: '#000000',
+      text: '#ffffff',
+      mutedText: '#ffffff',
+      accent: '#ffff00',
+      accentText: '#000000',
+      highlight: '#ffff00',
+      highlightBackground: '#000000',
+      danger: '#ff8080',
+      dangerBackground: '#000000',
+      border: '#ffffff',
+      inputBackground: '#000000',
+      inputText: '#ffffff',
+      fieldBackground: '#000000',
+      fieldBorder: '#ffffff',
+      bannerBackground: '#000000',
+      bannerText: '#ffffff',
+      danmakuText: '#ffff00',
+      danmakuShadow: '#000000'
+    },
+    fonts: { family: 'Arial, sans-serif', size: '16px', smallSize: '12px' },
+    spacing: { xs: '2px', sm: '5px', md: '10px', lg: '20px' },
+    radii: { sm: '3px', md: '4px', lg: '8px' }
+  }
+};
+
+const themeVarPrefixes: Record<keyof ThemeTokens, string> = {
+  colors: 'color',
+  fonts: 'font',
+  spacing: 'space',
+  radii: 'radius'
+};
+
+const resolveTheme = (
+  theme: ThemeSetting,
+  system: { prefersDark: boolean; prefersMoreContrast: boolean }
+): { name: ThemePreset | 'custom'; tokens: ThemeTokens } => {
+  if (theme === 'auto') {
+    const name: ThemePreset = system.prefersMoreContrast ? 'high-contrast' : system.prefersDark ? 'dark' : 'light';
+    return { name, tokens: themePresets[name] };
+  }
+  if (typeof theme === 'string') {
+    return { name: theme, tokens: themePresets[theme] || themePresets.default };
+  }
+
+  const base = themePresets[theme.base || 'default'];
+  return {
+    name: 'custom',
+    tokens: {
+      colors: { ...base.colors, ...theme.colors },
+      fonts: { ...base.fonts, ...theme.fonts },
+      spacing: { ...base.spacing, ...theme.spacing },
+      radii: { ...base.radii, ...theme.radii }
+    }
+  };
+};
+
+/**
+ * Wrap every token in `var(--lco-<group>-<name>, <value>)`
+ */
+const createThemeVars = (tokens: ThemeTokens): ThemeTokens => {
+  const toKebab = (key: string) => key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+  const wrap = <T extends Record<string, string>>(group: keyof ThemeTokens, values: T): T =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => (
+      [key, `var(--lco-${themeVarPrefixes[group]}-${toKebab(key)}, ${value})`]
+    ))) as T;
+
+  return {
+    colors: wrap('colors', tokens.colors),
+    fonts: wrap('fonts', tokens.fonts),
+    spacing: wrap('spacing', tokens.spacing),
+    radii: wrap('radii', tokens.radii)
+  };
+};
+
+const parseColor = (color: string): [number, number, number, number] | null => {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16)).concat(1) as [number, number, number, number];
+  }
+  const rgb = color.trim().match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+  if (rgb) {
+    return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3]), rgb[4] === undefined ? 1 : Number(rgb[4])];
+  }
+  return null;
+};
+
+// Alpha-composite `color` over an opaque `backdrop`
+const composite = (color: [number, number, number, number], backdrop: [number, number, number]): [number, number, number] =>
+  [0, 1, 2].map(channel => color[channel] * color[3] + backdrop[channel] * (1 - color[3])) as [number, number, number];
+
+const relativeLuminance = ([r, g, b]: [number, number, number]): number => {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+/**
+ * WCAG 2.1 contrast ratio between two colors; translucent colors are composited over `backdrop`
+ */
+const getContrastRatio = (foreground: string, background: string, backdrop = '#000000'): number | null => {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  const base = parseColor(backdrop);
+  if (!fg || !bg || !base) return null;
+
+  const backgroundRgb = composite(bg, [base[0], base[1], base[2]]);
+  const foregroundLuminance = relativeLuminance(composite(fg, backgroundRgb));
+  const backgroundLuminance = relativeLuminance(backgroundRgb);
+  const [lighter, darker] = foregroundLuminance > backgroundLuminance
+    ? [foregroundLuminance, backgroundLuminance]
+    : [backgroundLuminance, foregroundLuminance];
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+/**
+ * Check the text/background pairs the overlay renders against WCAG 2.1 AA (4.5:1).
+ * The overlay sits on video, so translucent backgrounds are checked over black by default
+ */
+const checkThemeContrast = (tokens: ThemeTokens, backdrop = '#000000'): ContrastIssue[] => {
+  const { colors } = tokens;
+  const pairs: Array<[string, string, string]> = [
+    ['text on overlayBackground', colors.text, colors.overlayBackground],
+    ['mutedText on overlayBackground', colors.mutedText, colors.overlayBackground],
+    ['accent on overlayBackground', colors.accent, colors.overlayBackground],
+    ['text on panelBackground', colors.text, colors.panelBackground],
+    ['accentText on accent', colors.accentText, colors.accent],
+    ['inputText on inputBackground', colors.inputText, colors.inputBackground],
+    ['bannerText on bannerBackground', colors.bannerText, colors.bannerBackground]
+  ];
+
+  return pairs
+    .map(([pair, foreground, background]) => ({
+      pair,
+      ratio: getContrastRatio(foreground, background, backdrop),
+      required: 4.5
+    }))
+    .filter((issue): issue is ContrastIssue => issue.ratio !== null && issue.ratio < issue.required);
+};
+
+/**
+ * React binding for `createLiveCommentsStore`: connects on mount, disconnects on unmount and
+ * re-renders on every state change. Build a custom UI on the returned state and actions.
+ * `config` may be a new object on every render, but `transport` and `consentManager` are compared
+ * by identity: create them once (outside the component, or in `useState`), not inline
+ */
+const useLiveComments = (config: LiveCommentsConfig, { playerElement = null }: UseLiveCommentsOptions = {}): LiveComments => {
+  const [store] = useState(() => createLiveCommentsStore(config));
+  const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+
+  // Runs before the start effect on mount, and keeps callbacks current afterwards
+  useEffect(() => {
+    store.updateConfig(config);
+    store.setPlayerElement(playerElement);
+  });
+
+  useEffect(() => {
+    store.start();
+    return () => store.stop();
+  }, [store]);
+
+  // Re-render every second while a timeout or slow-mode countdown is shown
+  const sendRestriction = store.actions.getSendRestriction();
+  const [, setClock] = useState(() => Date.now());
+  const cooldownUntil = sendRestriction?.until;
+  useEffect(() => {
+    if (!cooldownUntil) return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  return { ...state, ...store.actions, sendRestriction };
+};
+
+type OverlayStyles = { [key: string]: React.CSSProperties };
+
+// React escapes every string, so user text never reaches the DOM as markup
+const renderRichText = (tokens: RichTextToken[], styles: OverlayStyles): React.ReactNode[] => tokens.map((token, index) => {
+  switch (token.type) {
+    case 'text':
+      return <React.Fragment key={index}>{token.text}</React.Fragment>;
+    case 'mention':
+      return <span key={index} style={styles.mention}>{token.text}</span>;
+    case 'emote':
+      return <img key={index} style={styles.emote} src={token.url} alt={`:${token.name}:`} title={token.name} />;
+    case 'emoji':
+      return <span key={index} role="img" aria-label={token.name}>{token.text}</span>;
+    case 'link':
+      return (
+        <a key={index} style={styles.link} href={token.href} target="_blank" rel="noopener nofollow">
+          {token.text}
+        </a>
+      );
+    case 'bold':
+      return <strong key={index}>{renderRichText(token.children, styles)}</strong>;
+    case 'italic':
+      return <em key={index}>{renderRichText(token.children, styles)}</em>;
+  }
+});
+
+interface AdminControlsProps extends AdminControlsRenderProps {
+  styles: OverlayStyles;
+}
+
+const AdminControls: React.FC<AdminControlsProps> = ({ comment, isPinned, hasPermission, onModerate, onPin, className, styles }) => (
+  <div className={className} style={styles.adminControls}>
+    {hasPermission('comment.highlight') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('highlight')}
+        aria-label="Highlight comment"
+      >
+        Highlight
+      </button>
+    )}
+    {hasPermission('comment.quarantine') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('quarantine')}
+        aria-label="Quarantine comment"
+      >
+        Quarantine
+      </button>
+    )}
+    {hasPermission('comment.delete') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('delete')}
+        aria-label="Delete comment"
+      >
+        Delete
+      </button>
+    )}
+    {hasPermission('user.timeout') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('timeout')}
+        aria-label={`Time out ${comment.username} for 10 minutes`}
+      >
+        Timeout
+      </button>
+    )}
+    {hasPermission('user.ban') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('ban')}
+        aria-label={`Ban ${comment.username}`}
+      >
+        Ban
+      </button>
+    )}
+    {hasPermission('user.ban') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('shadow_ban')}
+        aria-label={`Shadow-ban ${comment.username}`}
+      >
+        Shadow-ban
+      </button>
+    )}
+    {hasPermission('comment.delete') && (
+      <button
+        style={styles.adminBtn}
+        onClick={() => onModerate('purge')}
+        aria-label={`Remove recent comments from ${comment.username}`}
+      >
+        Purge
+      </button>
+    )}
+    {hasPermission('comment.pin') && !isPinned && (
+      <button
+        style={styles.adminBtn}
+        onClick={onPin}
+        aria-label="Pin comment"
+      >
+        Pin
+      </button>
+    )}
+  </div>
+);
+
+interface CommentItemProps extends CommentRenderProps {
+  styles: OverlayStyles;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({
+  comment,
+  parent,
+  isMentioned,
+  ownReactions: mine,
+  canReact,
+  isReactionPickerOpen,
+  reactionEmojis,
+  richText,
+  onReact,
+  onToggleReactionPicker,
+  onReply,
+  onRetry,
+  onDiscard,
+  adminControls,
+  className,
+  styles
+}) => {
+  const isDelivered = !comment.deliveryStatus || comment.deliveryStatus === 'sent';
+  const reactionCounts = Object.entries(comment.reactions || {}).filter(([, count]) => count > 0);
+  const itemStyle = {
+    ...styles.commentItem,
+    ...(comment.replyTo ? styles.commentItemReply : {}),
+    ...(isMentioned ? styles.commentItemMentioned : {}),
+    ...(comment.highlighted ? styles.commentItemHighlighted : {}),
+    ...(comment.status === 'quarantined' ? styles.commentItemQuarantined : {}),
+    ...(comment.deliveryStatus === 'pending' ? styles.commentItemPending : {})
+  };
+
+  return (
+    <article
+      className={className}
+      style={itemStyle}
+      data-comment-id={comment.id}
+      data-mentioned={isMentioned || undefined}
+    >
+      {comment.replyTo && (
+        <div style={styles.replyQuote}>
+          {parent
+            ? <>↪ {parent.username}: {parent.text}</>
+            : '↪ Reply to an earlier comment'}
+        </div>
+      )}
+      <div style={styles.author}>
+        {comment.avatarUrl && (
+          <img style={styles.avatar} src={comment.avatarUrl} alt="" width={20} height={20} />
+        )}
+        <span style={styles.username} data-user-id={comment.userId}>
+          {comment.username}:
+        </span>
+      </div>
+      <div style={styles.text}>
+        {renderRichText(tokenizeMessage(comment.text, richText), styles)}
+      </div>
+      <div style={styles.timestamp}>
+        {new Date(comment.timestamp).toLocaleTimeString()}
+      </div>
+      {comment.deliveryStatus === 'pending' && (
+        <div style={styles.deliveryStatus}>Sending…</div>
+      )}
+      {comment.deliveryStatus === 'failed' && (
+        <div style={styles.deliveryStatus} role="alert">
+          Not sent
+          <button style={styles.adminBtn} onClick={onRetry} aria-label="Retry sending comment">
+            Retry
+          </button>
+          <button style={styles.adminBtn} onClick={onDiscard} aria-label="Discard unsent comment">
+            Discard
+          </button>
+        </div>
+      )}
+      {isDelivered && canReact && (
+        <div style={styles.reactions}>
+          {reactionCounts.map(([emoji, count]) => (
+            <button
+              key={emoji}
+              style={{ ...styles.reactionChip, ...(mine.includes(emoji) ? styles.reactionChipActive : {}) }}
+              onClick={() => onReact(emoji)}
+              aria-pressed={mine.includes(emoji)}
+              aria-label={`${emoji} ${count} ${count === 1 ? 'reaction' : 'reactions'}`}
+            >
+              {emoji} {count}
+            </button>
+          ))}
+          <button
+            style={styles.reactionChip}
+            onClick={onToggleReactionPicker}
+            aria-expanded={isReactionPickerOpen}
+            aria-label="Add reaction"
+          >
+            +
+          </button>
+          <button style={styles.reactionChip} onClick={onReply} aria-label={`Reply to ${comment.username}`}>
+            Reply
+          </button>
+          {isReactionPickerOpen && (
+            <div style={styles.reactionPicker} role="group" aria-label="Pick a reaction">
+              {reactionEmojis.map(emoji => (
+                <button
+                  key={emoji}
+                  style={styles.reactionChip}
+                  onClick={() => onReact(emoji)}
+                  aria-pressed={mine.includes(emoji)}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      {adminControls}
+    </article>
+  );
+};
+
+const consentPurposeLabels: Record<ConsentPurpose, string> = {
+  comments: 'Live comments: receive, store and publish comments under your name (required to chat)',
+  storage: 'Device storage: keep chat data such as unsent comments on this device',
+  analytics: 'Analytics: let this site measure chat usage'
+};
+
+interface ConsentBannerProps extends ConsentRenderProps {
+  styles: OverlayStyles;
 }
 
+// The checkboxes start from the current decision each time the banner opens, and unticked
+// before any decision: pre-ticked boxes don't count as consent
+const ConsentBanner: React.FC<ConsentBannerProps> = ({ consent, onDecide, onDownloadData, onEraseData, className, styles }) => {
+  const [draft, setDraft] = useState<Record<ConsentPurpose, boolean>>(
+    () => consent?.purposes || { comments: false, storage: false, analytics: false }
+  );
+
+  return (
+    <div className={className} style={styles.consentBanner}>
+      <dialog style={styles.consentContent} open aria-labelledby="consent-title">
+        <h3 id="consent-title">Cookie and Data Consent</h3>
+        <p>
+          We use cookies and store comment data to provide live chat functionality.
+          Your data is processed according to GDPR regulations. Choose what you agree to:
+        </p>
+        {consentPurposes.map(purpose => (
+          <label key={purpose} style={styles.consentOption}>
+            <input
+              type="checkbox"
+              checked={draft[purpose]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [purpose]: e.target.checked }))}
+            />
+            {consentPurposeLabels[purpose]}
+          </label>
+        ))}
+        {consent && (
+          <p style={styles.consentMeta}>
+            Your choice from {new Date(consent.decidedAt).toLocaleString()} (notice version {consent.version})
+          </p>
+        )}
+        <button
+          style={styles.consentBtn}
+          onClick={() => onDecide({ comments: true, storage: true, analytics: true })}
+          aria-label="Accept all data processing"
+        >
+          Accept all
+        </button>
+        <button
+          style={styles.consentBtn}
+          onClick={() => onDecide(draft)}
+          aria-label="Save selected data processing choices"
+        >
+          Save choices
+        </button>
+        <button
+          style={styles.consentBtn}
+          onClick={() => onDecide({})}
+          aria-label={consent ? 'Withdraw all consent' : 'Decline cookies and data processing'}
+        >
+          {consent ? 'Withdraw consent' : 'Decline'}
+        </button>
+        {consent && (
+          <div style={styles.consentRights}>
+            <button style={styles.privacyLink} onClick={onDownloadData}>
+              Download my data
+            </button>
+            <button style={styles.privacyLink} onClick={onEraseData}>
+              Erase my data
+            </button>
+          </div>
+        )}
+      </dialog>
+    </div>
+  );
+};
+
 const LiveCommentsOverlay = forwardRef<LiveCommentsOverlayRef, LiveCommentsOverlayProps>(
-  ({ config, playerElement, className = '' }, ref) => {
-    const [comments, setComments] = useState<Comment[]>([]);
-    const [moderationQueue, setModerationQueue] = useState<Comment[]>([]);
-    const [userConsent, setUserConsent] = useState(false);
-    const [showConsentBanner, setShowConsentBanner] = useState(false);
+  ({
+    config,
+    playerElement,
+    className = '',
+    classNames = {},
+    renderComment,
+    renderAdminControls,
+    renderConsent,
+    renderInput,
+    renderEmptyState
+  }, ref) => {
+    const {
+      comments,
+      moderationQueue,
+      connectionStatus,
+      outbox,
+      roomId,
+      channelModes,
+      pinnedComment,
+      ownReactions,
+      presence,
+      consent: consentRecord,
+      consentPromptOpen,
+      hasMoreHistory,
+      isLoadingHistory,
+      sendRestriction: inputRestriction,
+      sendComment,
+      reactToComment,
+      retryComment,
+      discardComment,
+      dismissComments,
+      moderateComment,
+      moderateUser,
+      setChannelModes,
+      approveComment,
+      rejectComment,
+      pinComment,
+      unpinComment,
+      postAnnouncement,
+      loadOlderComments,
+      setTyping,
+      openPrivacySettings,
+      recordConsent,
+      updateConsent,
+      withdrawConsent,
+      exportUserData,
+      requestErasure,
+      destroy,
+      getCurrentUser,
+      hasPermission,
+      hasConsent,
+      getSendRestriction,
+      mentionsCurrentUser
+    } = useLiveComments(config, { playerElement });
+    const [showModerationPanel, setShowModerationPanel] = useState(false);
+    const [queueSelection, setQueueSelection] = useState<string[]>([]);
+    const [queueSearch, setQueueSearch] = useState('');
+    const [queueSourceFilter, setQueueSourceFilter] = useState<'all' | ModerationQueueItem['flaggedBy']>('all');
+    const [rejectReason, setRejectReason] = useState<ModerationReason>('spam');
     const [inputValue, setInputValue] = useState('');
     const [isMobile, setIsMobile] = useState(false); // Default to false for SSR
-
-    const websocketRef = useRef<WebSocket | null>(null);
-    const reconnectAttemptsRef = useRef<number>(0);
-    const rateLimitMapRef = useRef<Map<string, number>>(new Map());
+    const [newMessageCount, setNewMessageCount] = useState(0);
+    const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+    const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+    const [mentionIndex, setMentionIndex] = useState(0);
+    const [mentionsDismissed, setMentionsDismissed] = useState(false);
+    const [showViewerList, setShowViewerList] = useState(false);
+    const [systemPreferences, setSystemPreferences] = useState({ prefersDark: false, prefersMoreContrast: false });
+
+    const commentsRef = useRef<Comment[]>([]);
     const overlayRef = useRef<HTMLDivElement>(null);
-
-    const bannedWords = ['spam', 'offensive', 'inappropriate'];
-    const maxReconnectAttempts = 5;
+    const inputRef = useRef<HTMLInputElement>(null);
+    const isAtBottomRef = useRef(true);
+    const lastCommentIdRef = useRef<string | null>(null);
+    const scrollRestoreRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+    const danmakuLayerRef = useRef<HTMLDivElement>(null);
+    const danmakuLayoutsRef = useRef<Map<string, DanmakuLayout>>(new Map());
+    const danmakuElementsRef = useRef<Map<string, HTMLElement>>(new Map());
+    const danmakuPendingRef = useRef<Map<string, number>>(new Map()); // commentId -> clock when first seen
+    const [, setDanmakuVersion] = useState(0);
 
     // Default configuration
-    const defaultConfig: Required<LiveCommentsConfig> = {
-      backend: 'websocket',
-      websocketUrl: 'ws://localhost:8080',
-      firebaseConfig: null,
-      moderationEnabled: true,
-      maxCommentsVisible: 50,
-      commentDisplayDuration: 5000,
-      profanityFilter: true,
-      userRole: 'user',
-      gdprCompliance: true,
-      theme: 'default',
-      onCommentReceived: () => {},
-      onCommentFiltered: () => {},
-      onModerationAction: () => {},
-      onWebSocketConnect: () => {},
-      onWebSocketDisconnect: () => {},
-      ...config
-    };
+    const defaultConfig = withConfigDefaults(config);
 
-    const isAdmin = defaultConfig.userRole === 'admin';
+    const canReviewQueue = hasPermission('queue.review');
+    const canModerate = Object.values(moderationCapabilities).some(hasPermission);
+    const isDanmakuMode = defaultConfig.displayMode === 'danmaku' || defaultConfig.displayMode === 'ticker';
+    const danmakuFontSize = defaultConfig.danmaku.fontSize || (isMobile ? 16 : 20);
+    const resolvedTheme = resolveTheme(defaultConfig.theme, systemPreferences);
+    const theme = createThemeVars(resolvedTheme.tokens);
+    commentsRef.current = comments;
+    const userConsent = hasConsent();
 
     // Initialize component
     useEffect(() => {
-      // Set initial mobile state after component mounts (client-side only)
-      const checkIsMobile = () => {
-        if (typeof window !== 'undefined') {
-          setIsMobile(window.innerWidth <= 768);
-        }
-      };
-      
-      checkIsMobile(); // Set initial value
-      
-      if (defaultConfig.gdprCompliance) {
-        const consent = typeof window !== 'undefined' ? localStorage.getItem('commentsConsent') : null;
-        if (consent === 'granted') {
-          setUserConsent(true);
-        } else {
-          setShowConsentBanner(true);
-        }
-      } else {
-        setUserConsent(true);
-      }
-
       // Handle window resize
       const handleResize = () => {
         if (typeof window !== 'undefined') {
@@ -130,353 +1026,544 @@ const LiveCommentsOverlay = forwardRef<LiveCommentsOverlayRef, LiveCommentsOverl
         }
       };
 
+      handleResize(); // Set initial value after mount (client-side only)
+
       if (typeof window !== 'undefined') {
         window.addEventListener('resize', handleResize);
         return () => window.removeEventListener('resize', handleResize);
       }
-    }, [defaultConfig.gdprCompliance]);
+    }, []);
 
-    // Connect to backend when consent is granted
+    // Panels and drafts refer to the previous room's comments
     useEffect(() => {
-      if (userConsent) {
-        connectToBackend();
-      }
-      return () => {
-        if (websocketRef.current) {
-          websocketRef.current.close();
-        }
-      };
-    }, [userConsent]);
+      setQueueSelection([]);
+      setReactionPickerFor(null);
+      setReplyingTo(null);
+      setNewMessageCount(0);
+      scrollRestoreRef.current = null;
+    }, [roomId]);
 
-    // Keyboard navigation support
     useEffect(() => {
-      const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.altKey && e.key === 'c') {
-          if (typeof document !== 'undefined') {
-            const input = document.querySelector('.comments-input');
-            if (input && 'focus' in input) {
-              (input as HTMLInputElement).focus();
+      if (presence.viewerCount === null) setShowViewerList(false);
+    }, [presence.viewerCount]);
+
+    // Danmaku / ticker renderer: lane assignment and positions are updated outside React each frame
+    useEffect(() => {
+      if (!isDanmakuMode) return;
+
+      const {
+        scrollDuration = 8000,
+        maxOnScreen = 40,
+        areaRatio = 0.75,
+        maxWaitMs = 2000,
+        tickerSpeed = 100
+      } = defaultConfig.danmaku;
+      const isTicker = defaultConfig.displayMode === 'ticker';
+      const fixedDuration = defaultConfig.commentDisplayDuration;
+      const laneHeight = Math.round(danmakuFontSize * 1.5);
+      const gap = danmakuFontSize;
+      const media = resolveMediaElement(playerElement);
+      const layouts = danmakuLayoutsRef.current;
+      const pending = danmakuPendingRef.current;
+
+      let frame = 0;
+      let clock = 0;
+      let lastTick = 0;
+
+      // Keep the layer aligned with the player when one is attached
+      const fitLayerToPlayer = (layer: HTMLDivElement) => {
+        if (!playerElement || !layer.offsetParent) return;
+        const player = playerElement.getBoundingClientRect();
+        const parent = layer.offsetParent.getBoundingClientRect();
+        layer.style.left = `${player.left - parent.left}px`;
+        layer.style.top = `${player.top - parent.top}px`;
+        layer.style.width = `${player.width}px`;
+        layer.style.height = `${player.height}px`;
+      };
+
+      const assignLayout = (comment: Comment, layerWidth: number, layerHeight: number): DanmakuLayout | null => {
+        const mode = isTicker ? 'scroll' : comment.position || 'scroll';
+        const width = estimateTextWidth(comment.text, danmakuFontSize) + 16;
+        const active = Array.from(layouts.values());
+
+        if (mode === 'scroll') {
+          const laneCount = isTicker ? 1 : Math.max(1, Math.floor((layerHeight * areaRatio) / laneHeight));
+          const speed = isTicker ? tickerSpeed / 1000 : (layerWidth + width) / scrollDuration;
+          for (let lane = 0; lane < laneCount; lane++) {
+            const inLane = active.filter(layout => layout.mode === 'scroll' && layout.lane === lane);
+            const last = inLane.sort((a, b) => b.startedAt - a.startedAt)[0];
+            if (canEnterScrollLane(last, clock, layerWidth, speed, gap)) {
+              return { mode, lane, startedAt: clock, width, speed };
             }
           }
+          return null;
         }
-      };
-
-      if (typeof document !== 'undefined') {
-        document.addEventListener('keydown', handleKeyDown);
-        return () => document.removeEventListener('keydown', handleKeyDown);
-      }
-    }, []);
 
-    /**
-     * Generate cryptographically secure unique ID
-     * Fixes security hotspot by using crypto.getRandomValues instead of Math.random
-     */
-    const generateId = (): string => {
-      const timestamp = Date.now().toString();
-      
-      // Use crypto.getRandomValues for secure random generation
-      if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
-        const array = new Uint32Array(2);
-        crypto.getRandomValues(array);
-        const randomPart = Array.from(array, byte => byte.toString(36)).join('');
-        return `comment_${timestamp}_${randomPart}`;
-      }
-      
-      // Secure fallback using current timestamp and performance.now()
-      console.warn('crypto.getRandomValues not available, using timestamp-based fallback');
-      const secureRandom = () => {
-        // Use multiple sources of entropy without Math.random()
-        const now = performance.now();
-        const date = new Date().getTime();
-        const random = (now * date * Math.PI).toString(36).slice(2, 11);
-        return random;
+        const laneCount = Math.max(1, Math.floor((layerHeight / 2) / laneHeight));
+        for (let lane = 0; lane < laneCount; lane++) {
+          if (!active.some(layout => layout.mode === mode && layout.lane === lane)) {
+            return { mode, lane, startedAt: clock, width, speed: 0 };
+          }
+        }
+        return null;
       };
-      
-      return `comment_${timestamp}_${secureRandom()}`;
-    };
 
-    const sanitizeHtml = (text: string): string => {
-      if (typeof document !== 'undefined') {
-        const div = document.createElement('div');
-        div.textContent = text;
-        return div.innerHTML;
-      }
-      // Fallback for SSR - just return the text as-is
-      return text;
-    };
+      const tick = (now: number) => {
+        const layer = danmakuLayerRef.current;
+        // The clock stands still while the attached video is paused
+        if (lastTick && !(media && media.paused)) clock += now - lastTick;
+        lastTick = now;
+
+        if (layer) {
+          // Release lanes held by comments removed elsewhere (moderation, maxCommentsVisible)
+          const visibleIds = new Set(commentsRef.current.map(comment => comment.id));
+          layouts.forEach((_, commentId) => {
+            if (!visibleIds.has(commentId)) layouts.delete(commentId);
+          });
+
+          fitLayerToPlayer(layer);
+          const layerWidth = layer.clientWidth;
+          const layerHeight = layer.clientHeight;
+          const finished: string[] = [];
+          let assigned = false;
+
+          commentsRef.current.forEach(comment => {
+            const layout = layouts.get(comment.id);
+            if (!layout) {
+              const firstSeen = pending.get(comment.id) ?? clock;
+              pending.set(comment.id, firstSeen);
+              const next = layouts.size < maxOnScreen ? assignLayout(comment, layerWidth, layerHeight) : null;
+              if (next) {
+                layouts.set(comment.id, next);
+                pending.delete(comment.id);
+                assigned = true;
+              } else if (clock - firstSeen > maxWaitMs) {
+                // Density limit: drop rather than show stale comments late
+                pending.delete(comment.id);
+                finished.push(comment.id);
+              }
+              return;
+            }
 
-    const containsProfanity = (text: string): boolean => {
-      const lowerText = text.toLowerCase();
-      return bannedWords.some(word => lowerText.includes(word));
-    };
+            const element = danmakuElementsRef.current.get(comment.id);
+            if (layout.mode === 'scroll') {
+              const x = layerWidth - (clock - layout.startedAt) * layout.speed;
+              if (element) element.style.transform = `translateX(${x}px)`;
+              if (x + layout.width < 0) finished.push(comment.id);
+            } else if (clock - layout.startedAt > fixedDuration) {
+              finished.push(comment.id);
+            }
+          });
 
-    const checkRateLimit = (): boolean => {
-      const now = Date.now();
-      const lastComment = rateLimitMapRef.current.get('lastComment') || 0;
-      
-      if (now - lastComment < 2000) {
-        return false;
-      }
-      
-      rateLimitMapRef.current.set('lastComment', now);
-      return true;
-    };
+          if (finished.length > 0) {
+            finished.forEach(commentId => layouts.delete(commentId));
+            dismissComments(finished);
+          } else if (assigned) {
+            setDanmakuVersion(version => version + 1);
+          }
+        }
 
-    const connectToBackend = () => {
-      if (defaultConfig.backend === 'firebase' && defaultConfig.firebaseConfig) {
-        // Firebase integration placeholder
-        console.log('Firebase integration not implemented in this demo');
-      } else {
-        connectToWebSocket();
-      }
-    };
+        frame = requestAnimationFrame(tick);
+      };
 
-    const handleWebSocketOpen = () => {
-      console.log('Connected to WebSocket server');
-      reconnectAttemptsRef.current = 0;
-      defaultConfig.onWebSocketConnect();
-    };
+      frame = requestAnimationFrame(tick);
+      return () => {
+        cancelAnimationFrame(frame);
+        layouts.clear();
+        pending.clear();
+      };
+    }, [isDanmakuMode, defaultConfig.displayMode, playerElement, danmakuFontSize]);
 
-    const handleWebSocketMessage = (event: MessageEvent) => {
-      try {
-        const data = JSON.parse(event.data);
-        handleIncomingComment(data);
-      } catch (error) {
-        console.error('Error parsing WebSocket message:', error);
-      }
-    };
+    // Track prefers-color-scheme / prefers-contrast for the 'auto' theme
+    useEffect(() => {
+      if (defaultConfig.theme !== 'auto' || typeof window === 'undefined' || !window.matchMedia) return;
 
-    const handleWebSocketClose = () => {
-      console.log('WebSocket connection closed');
-      defaultConfig.onWebSocketDisconnect();
-      attemptReconnect();
-    };
+      const darkQuery = window.matchMedia('(prefers-color-scheme: dark)');
+      const contrastQuery = window.matchMedia('(prefers-contrast: more)');
+      const updatePreferences = () => {
+        setSystemPreferences({ prefersDark: darkQuery.matches, prefersMoreContrast: contrastQuery.matches });
+      };
 
-    const handleWebSocketError = (error: Event) => {
-      console.error('WebSocket error:', error);
-    };
+      updatePreferences();
+      darkQuery.addEventListener('change', updatePreferences);
+      contrastQuery.addEventListener('change', updatePreferences);
+      return () => {
+        darkQuery.removeEventListener('change', updatePreferences);
+        contrastQuery.removeEventListener('change', updatePreferences);
+      };
+    }, [defaultConfig.theme]);
 
-    const connectToWebSocket = () => {
-      try {
-        websocketRef.current = new WebSocket(defaultConfig.websocketUrl);
-        
-        websocketRef.current.onopen = handleWebSocketOpen;
-        websocketRef.current.onmessage = handleWebSocketMessage;
-        websocketRef.current.onclose = handleWebSocketClose;
-        websocketRef.current.onerror = handleWebSocketError;
-      } catch (error) {
-        console.error('Failed to connect to WebSocket:', error);
+    // Warn about custom themes that fall below WCAG AA contrast
+    useEffect(() => {
+      if (resolvedTheme.name !== 'custom') return;
+      checkThemeContrast(resolvedTheme.tokens).forEach(issue => {
+        console.warn(`Theme contrast for ${issue.pair} is ${issue.ratio.toFixed(2)}:1, WCAG AA requires ${issue.required}:1`);
+      });
+    }, [JSON.stringify(defaultConfig.theme)]);
+
+    // Keep the log pinned to the newest comment, or count arrivals while the user reads older ones
+    useEffect(() => {
+      const log = overlayRef.current;
+      if (!log || isDanmakuMode) return;
+
+      const restore = scrollRestoreRef.current;
+      if (restore) {
+        // Wait for the requested page
+        if (isLoadingHistory) return;
+        // Older comments were prepended: keep the same comment under the reader's eyes
+        scrollRestoreRef.current = null;
+        log.scrollTop = log.scrollHeight - restore.scrollHeight + restore.scrollTop;
+        return;
       }
-    };
 
-    const performReconnectAttempt = () => {
-      console.log(`Reconnection attempt ${reconnectAttemptsRef.current}`);
-      connectToWebSocket();
-    };
+      const lastId = comments.length > 0 ? comments[comments.length - 1].id : null;
+      if (lastId === lastCommentIdRef.current) return;
+      const previousIndex = comments.findIndex(comment => comment.id === lastCommentIdRef.current);
+      const added = previousIndex === -1 ? comments.length : comments.length - 1 - previousIndex;
+      lastCommentIdRef.current = lastId;
 
-    const attemptReconnect = () => {
-      if (reconnectAttemptsRef.current < maxReconnectAttempts) {
-        reconnectAttemptsRef.current++;
-        setTimeout(performReconnectAttempt, 2000 * reconnectAttemptsRef.current);
+      if (isAtBottomRef.current) {
+        log.scrollTop = log.scrollHeight;
+      } else if (added > 0) {
+        setNewMessageCount(count => count + added);
       }
-    };
-
-    const handleIncomingComment = (data: Comment) => {
-      defaultConfig.onCommentReceived(data);
+    }, [comments, isLoadingHistory]);
 
-      if (defaultConfig.profanityFilter && containsProfanity(data.text)) {
-        defaultConfig.onCommentFiltered(data);
-        
-        if (defaultConfig.moderationEnabled) {
-          const quarantinedComment = { ...data, status: 'quarantined' as const };
-          setModerationQueue(prev => [...prev, quarantinedComment]);
-          
-          if (isAdmin) {
-            displayComment(quarantinedComment);
-          }
+    // Keyboard navigation support
+    useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        // Through the ref, so a custom input from `renderInput` is focused too
+        if (e.altKey && e.key === 'c') {
+          inputRef.current?.focus();
         }
-        return;
+      };
+
+      if (typeof document !== 'undefined') {
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
       }
+    }, []);
 
-      displayComment(data);
-    };
+    // Restrictions that depend on the draft (emote-only) are shown without disabling the input
+    const inputNotice = inputRestriction || (inputValue.trim() ? getSendRestriction(inputValue.trim()) : null);
 
-    const removeCommentAfterDelay = (commentId: string) => {
-      setComments(prev => prev.filter(c => c.id !== commentId));
+    const handleReact = (commentId: string, emoji: string) => {
+      reactToComment(commentId, emoji);
+      setReactionPickerFor(null);
     };
 
-    const displayComment = (comment: Comment) => {
-      setComments(prev => {
-        const newComments = [...prev, comment];
-        return newComments.slice(-defaultConfig.maxCommentsVisible);
-      });
-
-      // Auto-remove comment after display duration
-      setTimeout(() => removeCommentAfterDelay(comment.id), defaultConfig.commentDisplayDuration);
+    const startReply = (comment: Comment) => {
+      setReplyingTo(comment);
+      inputRef.current?.focus();
     };
 
-    /**
-     * Generate secure random username
-     * Fixes security hotspot by using crypto.getRandomValues instead of Math.random
-     */
-    const generateSecureUsername = (): string => {
-      if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
-        const array = new Uint32Array(1);
-        crypto.getRandomValues(array);
-        const randomNumber = array[0] % 10000; // Limit to 4 digits
-        return `User${randomNumber}`;
+    const handleLoadOlder = () => {
+      if (isLoadingHistory) return;
+      const log = overlayRef.current;
+      if (log) {
+        scrollRestoreRef.current = { scrollHeight: log.scrollHeight, scrollTop: log.scrollTop };
       }
-      
-      // Secure fallback without Math.random()
-      console.warn('crypto.getRandomValues not available for username generation, using timestamp-based fallback');
-      const now = Date.now();
-      const performanceTime = performance.now();
-      const fallbackNumber = Math.floor((now + performanceTime) % 10000);
-      return `User${fallbackNumber}`;
+      loadOlderComments();
     };
 
-    const sendComment = useCallback((message: string) => {
-      if (!userConsent && defaultConfig.gdprCompliance) {
-        alert('Please accept data processing consent to send comments');
-        return;
+    const handleLogScroll = (e: React.UIEvent<HTMLDivElement>) => {
+      const log = e.currentTarget;
+      isAtBottomRef.current = log.scrollHeight - log.scrollTop - log.clientHeight < 16;
+      if (isAtBottomRef.current) {
+        setNewMessageCount(0);
       }
+    };
 
-      if (!checkRateLimit()) {
-        alert('Please wait before sending another comment');
-        return;
+    const jumpToLatest = () => {
+      const log = overlayRef.current;
+      if (log) {
+        log.scrollTop = log.scrollHeight;
       }
+      isAtBottomRef.current = true;
+      setNewMessageCount(0);
+    };
 
-      const comment: Comment = {
-        id: generateId(),
-        username: generateSecureUsername(),
-        text: message,
-        timestamp: new Date().toISOString()
-      };
+    const handleDownloadData = async () => {
+      const data = await exportUserData();
+      if (typeof document === 'undefined') return;
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'live-comments-data.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    };
 
-      if (websocketRef.current && websocketRef.current.readyState === WebSocket.OPEN) {
-        websocketRef.current.send(JSON.stringify(comment));
+    const handleEraseData = () => {
+      if (typeof window !== 'undefined' && !window.confirm('Erase your comments and the data stored on this device?')) {
+        return;
       }
-    }, [userConsent, defaultConfig.gdprCompliance]);
-
-    const moderateComment = useCallback((commentId: string, action: 'highlight' | 'quarantine' | 'delete') => {
-      defaultConfig.onModerationAction(commentId, action);
-      
-      setComments(prev => {
-        return prev.map(comment => {
-          if (comment.id === commentId) {
-            switch (action) {
-              case 'highlight':
-                return { ...comment, highlighted: true };
-              case 'quarantine':
-                return { ...comment, status: 'quarantined' as const };
-              case 'delete':
-                return null;
-              default:
-                return comment;
-            }
-          }
-          return comment;
-        }).filter((comment): comment is Comment => comment !== null);
-      });
-    }, [defaultConfig]);
+      requestErasure().catch(error => console.error('Erasure request failed:', error));
+    };
 
-    const handleConsentAccept = () => {
-      setUserConsent(true);
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('commentsConsent', 'granted');
+    // @mention autocomplete: recent chatters, most recent first, matching the word being typed
+    const mentionQuery = /(?:^|\s)@([\p{L}\p{N}_.-]*)$/u.exec(inputValue)?.[1];
+    const mentionSuggestions = mentionQuery === undefined || mentionsDismissed ? [] : (() => {
+      const query = mentionQuery.toLowerCase();
+      const own = toMentionHandle(getCurrentUser().displayName).toLowerCase();
+      const handles: string[] = [];
+      for (let i = comments.length - 1; i >= 0 && handles.length < maxMentionSuggestions; i--) {
+        const handle = toMentionHandle(comments[i].username);
+        const key = handle.toLowerCase();
+        if (key !== own && key !== query && key.startsWith(query) && !handles.some(seen => seen.toLowerCase() === key)) {
+          handles.push(handle);
+        }
       }
-      setShowConsentBanner(false);
+      return handles;
+    })();
+    const activeMention = mentionSuggestions.length > 0 ? Math.min(mentionIndex, mentionSuggestions.length - 1) : -1;
+
+    const handleInputChange = (value: string) => {
+      setInputValue(value);
+      setMentionIndex(0);
+      setMentionsDismissed(false);
+      setTyping(Boolean(value.trim()) && !inputRestriction);
     };
 
-    const handleConsentDecline = () => {
-      setUserConsent(false);
-      setShowConsentBanner(false);
+    const acceptMention = (handle: string) => {
+      setInputValue(inputValue.replace(/@[\p{L}\p{N}_.-]*$/u, `@${handle} `));
+      setMentionIndex(0);
+      inputRef.current?.focus();
+    };
+
+    const submitDraft = () => {
+      // Keep the draft when it breaks emote-only mode so the user can fix it
+      if (!inputValue.trim() || inputNotice) return;
+      sendComment(inputValue.trim(), replyingTo ? { replyTo: replyingTo.id } : undefined);
+      setInputValue('');
+      setReplyingTo(null);
     };
 
     const handleInputSubmit = (e: React.KeyboardEvent<HTMLInputElement>) => {
-      if (e.key === 'Enter' && inputValue.trim()) {
-        sendComment(inputValue.trim());
-        setInputValue('');
+      if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+        submitDraft();
       }
     };
 
-    const destroy = useCallback(() => {
-      if (websocketRef.current) {
-        websocketRef.current.close();
+    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (activeMention >= 0) {
+        switch (e.key) {
+          case 'ArrowDown':
+            e.preventDefault();
+            setMentionIndex((activeMention + 1) % mentionSuggestions.length);
+            return;
+          case 'ArrowUp':
+            e.preventDefault();
+            setMentionIndex((activeMention - 1 + mentionSuggestions.length) % mentionSuggestions.length);
+            return;
+          case 'Enter':
+          case 'Tab':
+            e.preventDefault();
+            acceptMention(mentionSuggestions[activeMention]);
+            return;
+          case 'Escape':
+            e.preventDefault();
+            setMentionsDismissed(true);
+            return;
+        }
       }
-      
-      if (defaultConfig.gdprCompliance && typeof window !== 'undefined') {
-        localStorage.removeItem('commentsConsent');
+      if (e.key === 'Escape' && replyingTo) {
+        setReplyingTo(null);
+        return;
       }
-    }, [defaultConfig.gdprCompliance]);
+      handleInputSubmit(e);
+    };
 
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
       sendComment,
+      reactToComment,
+      retryComment,
+      discardComment,
       moderateComment,
+      approveComment,
+      rejectComment,
+      pinComment,
+      unpinComment,
+      postAnnouncement,
+      getPinnedComment: () => pinnedComment,
+      getRoomId: () => roomId,
+      getPresence: () => presence,
       getComments: () => comments,
       getModerationQueue: () => moderationQueue,
+      getCurrentUser,
+      hasPermission,
+      moderateUser,
+      setChannelModes,
+      getChannelModes: () => channelModes,
+      loadOlderComments,
+      getConsent: () => consentRecord,
+      updateConsent,
+      withdrawConsent,
+      exportUserData,
+      requestErasure,
       destroy
     }));
 
-    const styles: { [key: string]: React.CSSProperties } = {
+    const styles: OverlayStyles = {
       overlay: {
         position: 'absolute',
         top: '10px',
         right: '10px',
         width: isMobile ? '250px' : '300px',
         maxHeight: '400px',
-        background: 'rgba(0, 0, 0, 0.8)',
-        borderRadius: '8px',
+        background: theme.colors.overlayBackground,
+        borderRadius: theme.radii.lg,
         padding: '10px',
         overflowY: 'auto',
         zIndex: 1000,
-        color: '#ffffff',
-        fontFamily: 'Arial, sans-serif',
-        fontSize: '14px',
+        color: theme.colors.text,
+        fontFamily: theme.fonts.family,
+        fontSize: theme.fonts.size,
         lineHeight: 1.4
       },
       commentItem: {
         marginBottom: '8px',
         padding: '5px',
-        borderLeft: '3px solid #007bff',
-        background: 'rgba(255, 255, 255, 0.1)',
-        borderRadius: '4px',
+        borderLeft: `3px solid ${theme.colors.accent}`,
+        background: theme.colors.surface,
+        borderRadius: theme.radii.md,
         animation: 'slideIn 0.3s ease-in'
       },
       commentItemHighlighted: {
-        borderLeftColor: '#ffd700',
-        background: 'rgba(255, 215, 0, 0.2)'
+        borderLeftColor: theme.colors.highlight,
+        background: theme.colors.highlightBackground
       },
       commentItemQuarantined: {
-        borderLeftColor: '#dc3545',
-        background: 'rgba(220, 53, 69, 0.2)'
+        borderLeftColor: theme.colors.danger,
+        background: theme.colors.dangerBackground
+      },
+      commentItemPending: {
+        opacity: 0.7
+      },
+      commentItemReply: {
+        marginLeft: theme.spacing.md
+      },
+      commentItemMentioned: {
+        borderLeftColor: theme.colors.highlight,
+        boxShadow: `inset 0 0 0 1px ${theme.colors.highlight}`
+      },
+      replyQuote: {
+        marginBottom: theme.spacing.xs,
+        color: theme.colors.mutedText,
+        fontSize: theme.fonts.smallSize,
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap'
+      },
+      mention: {
+        fontWeight: 'bold',
+        color: theme.colors.accent
+      },
+      emote: {
+        height: '1.5em',
+        verticalAlign: 'middle'
+      },
+      link: {
+        color: theme.colors.accent,
+        textDecoration: 'underline'
+      },
+      reactions: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: theme.spacing.xs,
+        marginTop: theme.spacing.xs
+      },
+      reactionChip: {
+        background: 'none',
+        border: `1px solid ${theme.colors.border}`,
+        color: theme.colors.text,
+        padding: '0 6px',
+        borderRadius: theme.radii.sm,
+        cursor: 'pointer',
+        fontSize: theme.fonts.smallSize
+      },
+      reactionChipActive: {
+        borderColor: theme.colors.accent,
+        background: theme.colors.highlightBackground
+      },
+      reactionPicker: {
+        display: 'flex',
+        gap: theme.spacing.xs,
+        width: '100%'
+      },
+      deliveryStatus: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs,
+        marginTop: theme.spacing.xs,
+        color: theme.colors.mutedText,
+        fontSize: theme.fonts.smallSize
+      },
+      author: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs
+      },
+      avatar: {
+        width: '20px',
+        height: '20px',
+        borderRadius: '50%',
+        objectFit: 'cover',
+        flexShrink: 0
       },
       username: {
         fontWeight: 'bold',
-        color: '#007bff',
+        color: theme.colors.accent,
         marginRight: '5px'
       },
       text: {
         wordWrap: 'break-word'
       },
       timestamp: {
-        fontSize: '10px',
-        color: '#cccccc',
+        fontSize: theme.fonts.smallSize,
+        color: theme.colors.mutedText,
         marginTop: '2px'
       },
       adminControls: {
         marginTop: '5px'
       },
+      pinned: {
+        position: 'sticky',
+        top: '-10px',
+        zIndex: 1,
+        marginBottom: theme.spacing.sm,
+        padding: theme.spacing.sm,
+        borderLeft: `3px solid ${theme.colors.highlight}`,
+        borderRadius: theme.radii.md,
+        background: theme.colors.panelBackground,
+        color: theme.colors.text
+      },
+      pinnedOverVideo: {
+        position: 'absolute',
+        top: '10px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: isMobile ? '250px' : '400px',
+        zIndex: 1000
+      },
+      pinnedLabel: {
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: theme.spacing.xs,
+        color: theme.colors.mutedText,
+        fontSize: theme.fonts.smallSize
+      },
       adminBtn: {
         background: 'none',
-        border: '1px solid #ffffff',
-        color: '#ffffff',
+        border: `1px solid ${theme.colors.border}`,
+        color: theme.colors.text,
         padding: '2px 8px',
         marginRight: '5px',
-        borderRadius: '3px',
+        borderRadius: theme.radii.sm,
         cursor: 'pointer',
-        fontSize: '10px'
+        fontSize: theme.fonts.smallSize
       },
       inputContainer: {
         position: 'absolute',
@@ -488,18 +1575,145 @@ const LiveCommentsOverlay = forwardRef<LiveCommentsOverlayRef, LiveCommentsOverl
         width: '100%',
         padding: '8px',
         border: 'none',
-        borderRadius: '4px',
-        background: 'rgba(0, 0, 0, 0.8)',
-        color: '#ffffff',
-        fontSize: '14px'
+        borderRadius: theme.radii.md,
+        background: theme.colors.inputBackground,
+        color: theme.colors.inputText,
+        fontFamily: theme.fonts.family,
+        fontSize: theme.fonts.size
+      },
+      statusBar: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs,
+        marginBottom: theme.spacing.xs
+      },
+      connectionStatus: {
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs,
+        padding: `2px ${theme.spacing.sm}`,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize
+      },
+      viewerBadge: {
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs,
+        marginLeft: 'auto',
+        padding: `2px ${theme.spacing.sm}`,
+        border: 'none',
+        borderRadius: theme.radii.sm,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        fontFamily: theme.fonts.family,
+        fontSize: theme.fonts.smallSize
+      },
+      viewerList: {
+        maxHeight: '160px',
+        overflowY: 'auto',
+        marginBottom: theme.spacing.xs,
+        padding: theme.spacing.sm,
+        borderRadius: theme.radii.md,
+        background: theme.colors.panelBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize
+      },
+      viewerListItems: {
+        listStyle: 'none',
+        margin: 0,
+        padding: 0
+      },
+      viewerListItem: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs,
+        padding: '2px 0'
+      },
+      viewerRole: {
+        padding: `0 ${theme.spacing.xs}`,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.accent,
+        color: theme.colors.accentText,
+        fontSize: theme.fonts.smallSize
+      },
+      viewerListEmpty: {
+        margin: 0,
+        color: theme.colors.mutedText
+      },
+      typingIndicator: {
+        marginBottom: theme.spacing.xs,
+        padding: `2px ${theme.spacing.sm}`,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize,
+        fontStyle: 'italic'
+      },
+      statusDot: {
+        width: '8px',
+        height: '8px',
+        borderRadius: '50%'
+      },
+      replyBar: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: theme.spacing.xs,
+        padding: `2px ${theme.spacing.sm}`,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize
+      },
+      mentionList: {
+        listStyle: 'none',
+        margin: `${theme.spacing.xs} 0 0`,
+        padding: theme.spacing.xs,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.panelBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize
+      },
+      mentionOption: {
+        padding: `2px ${theme.spacing.sm}`,
+        borderRadius: theme.radii.sm,
+        cursor: 'pointer'
+      },
+      mentionOptionActive: {
+        background: theme.colors.accent,
+        color: theme.colors.accentText
+      },
+      inputNotice: {
+        marginTop: theme.spacing.xs,
+        padding: `2px ${theme.spacing.sm}`,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize
+      },
+      channelModes: {
+        marginBottom: theme.spacing.xs,
+        padding: theme.spacing.xs,
+        borderRadius: theme.radii.sm,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        fontSize: theme.fonts.smallSize
+      },
+      channelModeOption: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: theme.spacing.xs,
+        marginTop: theme.spacing.xs
       },
       consentBanner: {
         position: 'fixed',
         bottom: 0,
         left: 0,
         right: 0,
-        background: '#333',
-        color: 'white',
+        background: theme.colors.bannerBackground,
+        color: theme.colors.bannerText,
         padding: '20px',
         zIndex: 10000
       },
@@ -507,125 +1721,676 @@ const LiveCommentsOverlay = forwardRef<LiveCommentsOverlayRef, LiveCommentsOverl
         maxWidth: '800px',
         margin: '0 auto'
       },
+      consentOption: {
+        display: 'flex',
+        alignItems: 'flex-start',
+        gap: theme.spacing.sm,
+        marginBottom: theme.spacing.sm
+      },
+      consentMeta: {
+        fontSize: theme.fonts.smallSize,
+        opacity: 0.8
+      },
+      consentRights: {
+        marginTop: theme.spacing.md
+      },
+      privacyLink: {
+        background: 'none',
+        border: 'none',
+        padding: `${theme.spacing.xs} 0`,
+        marginRight: theme.spacing.md,
+        color: 'inherit',
+        textDecoration: 'underline',
+        cursor: 'pointer',
+        fontSize: theme.fonts.smallSize
+      },
       consentBtn: {
-        background: '#007bff',
-        color: 'white',
+        background: theme.colors.accent,
+        color: theme.colors.accentText,
         border: 'none',
         padding: '10px 20px',
         marginRight: '10px',
-        borderRadius: '4px',
+        borderRadius: theme.radii.md,
         cursor: 'pointer'
+      },
+      queueToggle: {
+        position: 'absolute',
+        top: '10px',
+        left: '10px',
+        zIndex: 1001,
+        background: theme.colors.overlayBackground,
+        color: theme.colors.text,
+        border: `1px solid ${theme.colors.danger}`,
+        borderRadius: theme.radii.md,
+        padding: '4px 10px',
+        cursor: 'pointer',
+        fontSize: '12px'
+      },
+      moderationPanel: {
+        position: 'absolute',
+        top: '10px',
+        left: '10px',
+        width: isMobile ? '250px' : '320px',
+        maxHeight: '400px',
+        overflowY: 'auto',
+        zIndex: 1001,
+        background: theme.colors.panelBackground,
+        color: theme.colors.text,
+        borderRadius: theme.radii.lg,
+        padding: '10px',
+        fontFamily: theme.fonts.family,
+        fontSize: '13px'
+      },
+      panelHeader: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '8px'
+      },
+      panelTitle: {
+        margin: 0,
+        fontSize: theme.fonts.size
+      },
+      panelToolbar: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '5px',
+        marginBottom: '8px'
+      },
+      panelField: {
+        flex: 1,
+        minWidth: '90px',
+        padding: '4px',
+        borderRadius: theme.radii.sm,
+        border: `1px solid ${theme.colors.fieldBorder}`,
+        background: theme.colors.fieldBackground,
+        color: theme.colors.text,
+        fontSize: '12px'
+      },
+      queueItem: {
+        display: 'flex',
+        gap: '6px',
+        alignItems: 'flex-start',
+        padding: '5px',
+        marginBottom: '6px',
+        borderLeft: `3px solid ${theme.colors.danger}`,
+        background: theme.colors.surface,
+        borderRadius: theme.radii.md
+      },
+      queueMeta: {
+        fontSize: theme.fonts.smallSize,
+        color: theme.colors.mutedText
+      },
+      emptyQueue: {
+        color: theme.colors.mutedText,
+        fontStyle: 'italic'
+      },
+      danmakuLayer: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        overflow: 'hidden',
+        pointerEvents: 'none',
+        zIndex: 999
+      },
+      danmakuItem: {
+        position: 'absolute',
+        left: 0,
+        whiteSpace: 'nowrap',
+        fontFamily: theme.fonts.family,
+        fontWeight: 'bold',
+        fontSize: `${danmakuFontSize}px`,
+        lineHeight: 1.5,
+        color: theme.colors.danmakuText,
+        textShadow: `1px 1px 2px ${theme.colors.danmakuShadow}, -1px -1px 2px ${theme.colors.danmakuShadow}`,
+        willChange: 'transform'
+      },
+      danmakuFixed: {
+        left: '50%',
+        transform: 'translateX(-50%)'
+      },
+      tickerBand: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: '8px',
+        height: `${Math.round(danmakuFontSize * 1.5)}px`,
+        background: theme.colors.overlayBackground
+      },
+      loadOlderBtn: {
+        display: 'block',
+        width: '100%',
+        marginBottom: theme.spacing.sm,
+        background: 'none',
+        border: `1px solid ${theme.colors.border}`,
+        color: theme.colors.text,
+        padding: theme.spacing.xs,
+        borderRadius: theme.radii.sm,
+        cursor: 'pointer',
+        fontSize: theme.fonts.smallSize
+      },
+      newMessagesBtn: {
+        position: 'sticky',
+        bottom: 0,
+        display: 'block',
+        margin: '0 auto',
+        background: theme.colors.accent,
+        color: theme.colors.accentText,
+        border: 'none',
+        padding: `${theme.spacing.xs} ${theme.spacing.md}`,
+        borderRadius: theme.radii.md,
+        cursor: 'pointer',
+        fontSize: theme.fonts.smallSize
+      },
+      visuallyHidden: {
+        position: 'absolute',
+        width: '1px',
+        height: '1px',
+        margin: '-1px',
+        padding: 0,
+        overflow: 'hidden',
+        clip: 'rect(0, 0, 0, 0)',
+        whiteSpace: 'nowrap',
+        border: 0
       }
     };
 
-    const AdminControls: React.FC<{ comment: Comment }> = ({ comment }) => (
-      <div style={styles.adminControls}>
-        <button
-          style={styles.adminBtn}
-          onClick={() => moderateComment(comment.id, 'highlight')}
-          aria-label="Highlight comment"
-        >
-          Highlight
-        </button>
-        <button
-          style={styles.adminBtn}
-          onClick={() => moderateComment(comment.id, 'quarantine')}
-          aria-label="Quarantine comment"
-        >
-          Quarantine
-        </button>
-        <button
-          style={styles.adminBtn}
-          onClick={() => moderateComment(comment.id, 'delete')}
-          aria-label="Delete comment"
-        >
-          Delete
-        </button>
-      </div>
+    const renderPinnedComment = (pinned: PinnedComment) => (
+      <section
+        className={classNames.pinned}
+        style={{ ...styles.pinned, ...(isDanmakuMode ? styles.pinnedOverVideo : {}) }}
+        aria-label={pinned.comment.announcement ? 'Announcement' : 'Pinned comment'}
+      >
+        <div style={styles.pinnedLabel}>
+          📌 {pinned.comment.announcement ? 'Announcement' : 'Pinned'} · {pinned.comment.username}
+          {hasPermission('comment.pin') && (
+            <button style={styles.adminBtn} onClick={unpinComment} aria-label="Unpin">
+              Unpin
+            </button>
+          )}
+        </div>
+        <div style={styles.text}>
+          {renderRichText(tokenizeMessage(pinned.comment.text, defaultConfig.richText), styles)}
+        </div>
+      </section>
+    );
+
+    // Rendered through a function so the select keeps focus across renders
+    const renderChannelModeControls = () => (
+      <details style={styles.channelModes}>
+        <summary>Chat modes</summary>
+        <label style={styles.channelModeOption}>
+          Slow mode{' '}
+          <select
+            style={styles.panelField}
+            value={channelModes.slowModeMs || 0}
+            onChange={(e) => setChannelModes({ slowModeMs: Number(e.target.value) })}
+          >
+            <option value={0}>Off</option>
+            <option value={10000}>10s</option>
+            <option value={30000}>30s</option>
+            <option value={60000}>1m</option>
+            <option value={300000}>5m</option>
+          </select>
+        </label>
+        <label style={styles.channelModeOption}>
+          <input
+            type="checkbox"
+            checked={Boolean(channelModes.followersOnly)}
+            onChange={(e) => setChannelModes({ followersOnly: e.target.checked })}
+          />
+          Followers only
+        </label>
+        <label style={styles.channelModeOption}>
+          <input
+            type="checkbox"
+            checked={Boolean(channelModes.subscribersOnly)}
+            onChange={(e) => setChannelModes({ subscribersOnly: e.target.checked })}
+          />
+          Subscribers only
+        </label>
+        <label style={styles.channelModeOption}>
+          <input
+            type="checkbox"
+            checked={Boolean(channelModes.emoteOnly)}
+            onChange={(e) => setChannelModes({ emoteOnly: e.target.checked })}
+          />
+          Emote only
+        </label>
+      </details>
     );
 
-    const CommentItem: React.FC<{ comment: Comment }> = ({ comment }) => {
-      const itemStyle = {
-        ...styles.commentItem,
-        ...(comment.highlighted ? styles.commentItemHighlighted : {}),
-        ...(comment.status === 'quarantined' ? styles.commentItemQuarantined : {})
+    const renderCommentItem = (comment: Comment) => {
+      const controlsProps: AdminControlsRenderProps = {
+        comment,
+        isPinned: pinnedComment?.comment.id === comment.id,
+        hasPermission,
+        onModerate: action => moderateComment(comment.id, action),
+        onPin: () => pinComment(comment.id),
+        className: classNames.adminControls
       };
+      const adminControls = !canModerate
+        ? null
+        : renderAdminControls
+          ? renderAdminControls(controlsProps)
+          : <AdminControls {...controlsProps} styles={styles} />;
+      const props: CommentRenderProps = {
+        comment,
+        parent: comment.replyTo ? comments.find(candidate => candidate.id === comment.replyTo) : undefined,
+        isMentioned: mentionsCurrentUser(comment),
+        ownReactions: ownReactions[comment.id] || [],
+        canReact: userConsent,
+        isReactionPickerOpen: reactionPickerFor === comment.id,
+        reactionEmojis: defaultConfig.reactionEmojis,
+        richText: defaultConfig.richText,
+        onReact: emoji => handleReact(comment.id, emoji),
+        onToggleReactionPicker: () => setReactionPickerFor(reactionPickerFor === comment.id ? null : comment.id),
+        onReply: () => startReply(comment),
+        onRetry: () => retryComment(comment.id),
+        onDiscard: () => discardComment(comment.id),
+        adminControls,
+        className: classNames.comment
+      };
+      return renderComment
+        ? <React.Fragment key={comment.id}>{renderComment(props)}</React.Fragment>
+        : <CommentItem key={comment.id} {...props} styles={styles} />;
+    };
+
+    const inputProps: InputRenderProps = {
+      inputRef,
+      value: inputValue,
+      placeholder: channelModes.emoteOnly ? 'Emote-only mode' : 'Type a comment...',
+      disabled: Boolean(inputRestriction),
+      notice: inputNotice,
+      replyingTo,
+      onChange: handleInputChange,
+      onKeyDown: handleInputKeyDown,
+      onBlur: () => setTyping(false),
+      submit: submitDraft,
+      className: classNames.input
+    };
 
+    const consentProps: ConsentRenderProps = {
+      consent: consentRecord,
+      onDecide: purposes => recordConsent(purposes, 'banner'),
+      onDownloadData: handleDownloadData,
+      onEraseData: handleEraseData,
+      className: classNames.consent
+    };
+
+    const canListViewers = hasPermission('viewers.list');
+    const viewerCount = defaultConfig.showViewerCount ? presence.viewerCount : null;
+    const typingLabel = defaultConfig.typingIndicators ? describeTyping(presence.typing) : '';
+
+    const renderViewerBadge = (viewerCount: number) => {
+      const label = `${viewerCount} ${viewerCount === 1 ? 'viewer' : 'viewers'}`;
+      const content = <><span aria-hidden="true">👁</span> {formatViewerCount(viewerCount)}</>;
+      if (!canListViewers) {
+        return <span style={styles.viewerBadge} aria-label={label} title={label}>{content}</span>;
+      }
       return (
-        <article
-          style={itemStyle}
-          data-comment-id={comment.id}
+        <button
+          style={{ ...styles.viewerBadge, cursor: 'pointer' }}
+          onClick={() => setShowViewerList(!showViewerList)}
+          aria-label={`${label}, ${showViewerList ? 'hide' : 'show'} viewer list`}
+          aria-expanded={showViewerList}
+          aria-controls="comments-viewer-list"
         >
-          <div style={styles.username}>
-            {sanitizeHtml(comment.username)}:
-          </div>
-          <div style={styles.text}>
-            {sanitizeHtml(comment.text)}
-          </div>
-          <div style={styles.timestamp}>
-            {new Date(comment.timestamp).toLocaleTimeString()}
-          </div>
-          {isAdmin && <AdminControls comment={comment} />}
-        </article>
+          {content}
+        </button>
       );
     };
 
-    const ConsentBanner: React.FC = () => (
-      <div style={styles.consentBanner}>
-        <dialog style={styles.consentContent} open aria-labelledby="consent-title">
-          <h3 id="consent-title">Cookie and Data Consent</h3>
-          <p>
-            We use cookies and store comment data to provide live chat functionality.
-            Your data is processed according to GDPR regulations.
-          </p>
+    const renderViewerList = () => (
+      <div id="comments-viewer-list" style={styles.viewerList} aria-label="Viewers">
+        {presence.viewers ? (
+          <ul style={styles.viewerListItems}>
+            {presence.viewers.map(viewer => (
+              <li key={viewer.id} style={styles.viewerListItem}>
+                {viewer.avatarUrl && <img style={styles.avatar} src={viewer.avatarUrl} alt="" width={20} height={20} />}
+                <span>{viewer.displayName}</span>
+                {viewer.roles?.filter(role => role !== 'viewer').map(role => (
+                  <span key={role} style={styles.viewerRole}>{role}</span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p style={styles.viewerListEmpty}>The server doesn't share the viewer list</p>
+        )}
+      </div>
+    );
+
+    const connectionLabels: Record<TransportStatus, string> = {
+      idle: '',
+      connecting: 'Connecting…',
+      connected: 'Live',
+      disconnected: 'Disconnected',
+      error: 'Connection failed'
+    };
+
+    const visibleQueue = moderationQueue.filter(item => {
+      const search = queueSearch.trim().toLowerCase();
+      const matchesSearch = !search
+        || item.text.toLowerCase().includes(search)
+        || item.username.toLowerCase().includes(search);
+      return matchesSearch && (queueSourceFilter === 'all' || item.flaggedBy === queueSourceFilter);
+    });
+
+    const toggleQueueSelection = (commentId: string) => {
+      setQueueSelection(prev => (prev.includes(commentId)
+        ? prev.filter(id => id !== commentId)
+        : [...prev, commentId]));
+    };
+
+    const handleBulkApprove = () => {
+      queueSelection.forEach(approveComment);
+    };
+
+    const handleBulkReject = () => {
+      queueSelection.forEach(commentId => rejectComment(commentId, rejectReason));
+    };
+
+    // Rendered through a function rather than a nested component so the search field keeps focus
+    const renderModerationPanel = () => (
+      <section className={classNames.moderationPanel} style={styles.moderationPanel} aria-labelledby="moderation-panel-title">
+        <div style={styles.panelHeader}>
+          <h3 id="moderation-panel-title" style={styles.panelTitle}>
+            Moderation queue ({moderationQueue.length})
+          </h3>
           <button
-            style={styles.consentBtn}
-            onClick={handleConsentAccept}
-            aria-label="Accept cookies and data processing"
+            style={styles.adminBtn}
+            onClick={() => setShowModerationPanel(false)}
+            aria-label="Close moderation queue"
           >
-            Accept
+            Close
           </button>
+        </div>
+
+        <div style={styles.panelToolbar}>
+          <input
+            style={styles.panelField}
+            type="search"
+            placeholder="Search queue..."
+            aria-label="Search moderation queue"
+            value={queueSearch}
+            onChange={(e) => setQueueSearch(e.target.value)}
+          />
+          <select
+            style={styles.panelField}
+            aria-label="Filter by flag source"
+            value={queueSourceFilter}
+            onChange={(e) => setQueueSourceFilter(e.target.value as 'all' | ModerationQueueItem['flaggedBy'])}
+          >
+            <option value="all">All sources</option>
+            <option value="filter">Content filter</option>
+            <option value="moderator">Moderator</option>
+          </select>
+          <select
+            style={styles.panelField}
+            aria-label="Rejection reason"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value as ModerationReason)}
+          >
+            {moderationReasons.map(reason => (
+              <option key={reason} value={reason}>{reason.replace('_', ' ')}</option>
+            ))}
+          </select>
+        </div>
+
+        <div style={styles.panelToolbar}>
           <button
-            style={styles.consentBtn}
-            onClick={handleConsentDecline}
-            aria-label="Decline cookies and data processing"
+            style={styles.adminBtn}
+            onClick={() => setQueueSelection(visibleQueue.map(item => item.id))}
+            disabled={visibleQueue.length === 0}
           >
-            Decline
+            Select all
           </button>
-        </dialog>
-      </div>
+          <button
+            style={styles.adminBtn}
+            onClick={handleBulkApprove}
+            disabled={queueSelection.length === 0}
+            aria-label={`Approve ${queueSelection.length} selected comments`}
+          >
+            Approve selected
+          </button>
+          <button
+            style={styles.adminBtn}
+            onClick={handleBulkReject}
+            disabled={queueSelection.length === 0}
+            aria-label={`Reject ${queueSelection.length} selected comments`}
+          >
+            Reject selected
+          </button>
+        </div>
+
+        {visibleQueue.length === 0 && <p style={styles.emptyQueue}>No comments awaiting review</p>}
+        {visibleQueue.map(item => (
+          <article key={item.id} style={styles.queueItem} data-comment-id={item.id}>
+            <input
+              type="checkbox"
+              checked={queueSelection.includes(item.id)}
+              onChange={() => toggleQueueSelection(item.id)}
+              aria-label={`Select comment from ${item.username}`}
+            />
+            <div style={{ flex: 1 }}>
+              <div style={styles.username}>{item.username}:</div>
+              <div style={styles.text}>{item.text}</div>
+              <div style={styles.queueMeta}>
+                Flagged by {item.flaggedBy} at {new Date(item.flaggedAt).toLocaleTimeString()}
+              </div>
+              <div style={styles.adminControls}>
+                <button
+                  style={styles.adminBtn}
+                  onClick={() => approveComment(item.id)}
+                  aria-label={`Approve comment from ${item.username}`}
+                >
+                  Approve
+                </button>
+                <button
+                  style={styles.adminBtn}
+                  onClick={() => rejectComment(item.id, rejectReason)}
+                  aria-label={`Reject comment from ${item.username}`}
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          </article>
+        ))}
+      </section>
     );
 
+    const renderDanmakuItem = (comment: Comment) => {
+      const layout = danmakuLayoutsRef.current.get(comment.id);
+      if (!layout) return null;
+
+      const laneHeight = Math.round(danmakuFontSize * 1.5);
+      const layerHeight = danmakuLayerRef.current?.clientHeight || 0;
+      const isTicker = defaultConfig.displayMode === 'ticker';
+      const top = isTicker
+        ? layerHeight - laneHeight - 8
+        : layout.mode === 'bottom'
+          ? layerHeight - (layout.lane + 1) * laneHeight
+          : layout.lane * laneHeight;
+
+      return (
+        <span
+          key={comment.id}
+          ref={element => {
+            if (element) danmakuElementsRef.current.set(comment.id, element);
+            else danmakuElementsRef.current.delete(comment.id);
+          }}
+          style={{
+            ...styles.danmakuItem,
+            ...(layout.mode === 'scroll' ? { transform: 'translateX(100vw)' } : styles.danmakuFixed),
+            ...(comment.highlighted ? { color: theme.colors.highlight } : {}),
+            ...(comment.status === 'quarantined' ? { color: theme.colors.danger } : {}),
+            top: `${top}px`
+          }}
+          data-comment-id={comment.id}
+        >
+          {comment.text}
+        </span>
+      );
+    };
+
     return (
       <>
-        <div
-          ref={overlayRef}
-          className={`live-comments-overlay ${className}`}
-          style={styles.overlay}
-          role="log"
-          aria-live="polite"
-          aria-label="Live comments stream"
-        >
-          {comments.map(comment => (
-            <CommentItem key={comment.id} comment={comment} />
-          ))}
+        {isDanmakuMode ? (
+          <>
+            <div
+              ref={danmakuLayerRef}
+              className={['live-comments-danmaku', className, classNames.log].filter(Boolean).join(' ')}
+              style={styles.danmakuLayer}
+              aria-hidden="true"
+            >
+              {defaultConfig.displayMode === 'ticker' && <div style={styles.tickerBand} />}
+              {comments.map(renderDanmakuItem)}
+            </div>
+            {/* Screen readers get the same stream as a plain log */}
+            <div ref={overlayRef} style={styles.visuallyHidden} role="log" aria-live="polite" aria-label="Live comments stream">
+              {comments.map(comment => (
+                <p key={comment.id}>{comment.username}: {comment.text}</p>
+              ))}
+            </div>
+            {pinnedComment && renderPinnedComment(pinnedComment)}
+          </>
+        ) : (
+          <div
+            ref={overlayRef}
+            className={['live-comments-overlay', className, classNames.log].filter(Boolean).join(' ')}
+            data-theme={resolvedTheme.name}
+            style={styles.overlay}
+            role="log"
+            aria-live="polite"
+            aria-label="Live comments stream"
+            onScroll={handleLogScroll}
+          >
+            {pinnedComment && renderPinnedComment(pinnedComment)}
+            {defaultConfig.persistentLog && hasMoreHistory && (
+              <button style={styles.loadOlderBtn} onClick={handleLoadOlder} disabled={isLoadingHistory}>
+                {isLoadingHistory ? 'Loading…' : 'Load older comments'}
+              </button>
+            )}
+            {comments.length === 0 && renderEmptyState?.({
+              connectionStatus,
+              isLoadingHistory,
+              className: classNames.emptyState
+            })}
+            {comments.map(renderCommentItem)}
+            {newMessageCount > 0 && (
+              <button
+                style={styles.newMessagesBtn}
+                onClick={jumpToLatest}
+                aria-label={`Jump to ${newMessageCount} new comments`}
+              >
+                ↓ {newMessageCount} new {newMessageCount === 1 ? 'message' : 'messages'}
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className={classNames.inputContainer} style={styles.inputContainer}>
+          {(connectionStatus !== 'idle' || viewerCount !== null) && (
+            <div style={styles.statusBar}>
+              {connectionStatus !== 'idle' && (
+                <div style={styles.connectionStatus} role="status">
+                  <span
+                    style={{
+                      ...styles.statusDot,
+                      background: connectionStatus === 'connected' ? theme.colors.accent : theme.colors.danger
+                    }}
+                    aria-hidden="true"
+                  />
+                  {connectionLabels[connectionStatus]}
+                  {outbox.length > 0 && ` · ${outbox.length} queued`}
+                </div>
+              )}
+              {viewerCount !== null && renderViewerBadge(viewerCount)}
+            </div>
+          )}
+          {showViewerList && canListViewers && renderViewerList()}
+          {hasPermission('channel.modes') && renderChannelModeControls()}
+          {typingLabel && <div style={styles.typingIndicator}>{typingLabel}</div>}
+          {replyingTo && (
+            <div style={styles.replyBar}>
+              <span>Replying to {replyingTo.username}</span>
+              <button style={styles.privacyLink} onClick={() => setReplyingTo(null)} aria-label="Cancel reply">
+                ×
+              </button>
+            </div>
+          )}
+          {renderInput ? renderInput(inputProps) : (
+            <input
+              ref={inputRef}
+              style={styles.input}
+              className={['comments-input', classNames.input].filter(Boolean).join(' ')}
+              type="text"
+              role="combobox"
+              placeholder={inputProps.placeholder}
+              aria-label={replyingTo ? `Reply to ${replyingTo.username}` : 'Type a live comment'}
+              aria-describedby={inputNotice ? 'comments-input-notice' : undefined}
+              aria-autocomplete="list"
+              aria-expanded={mentionSuggestions.length > 0}
+              aria-controls="comments-mention-list"
+              aria-activedescendant={activeMention >= 0 ? `comments-mention-${activeMention}` : undefined}
+              maxLength={200}
+              value={inputValue}
+              disabled={inputProps.disabled}
+              onChange={(e) => handleInputChange(e.target.value)}
+              onKeyDown={handleInputKeyDown}
+              onBlur={inputProps.onBlur}
+            />
+          )}
+          {mentionSuggestions.length > 0 && (
+            <ul id="comments-mention-list" style={styles.mentionList} role="listbox" aria-label="Mention a chatter">
+              {mentionSuggestions.map((handle, index) => (
+                <li
+                  key={handle}
+                  id={`comments-mention-${index}`}
+                  style={{ ...styles.mentionOption, ...(index === activeMention ? styles.mentionOptionActive : {}) }}
+                  role="option"
+                  aria-selected={index === activeMention}
+                  // Keep focus in the input
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    acceptMention(handle);
+                  }}
+                >
+                  @{handle}
+                </li>
+              ))}
+            </ul>
+          )}
+          {inputNotice && (
+            <div id="comments-input-notice" style={styles.inputNotice} role="status">
+              {inputNotice.reason}
+            </div>
+          )}
+          {defaultConfig.gdprCompliance && !consentPromptOpen && (
+            <button style={{ ...styles.privacyLink, color: theme.colors.text }} onClick={openPrivacySettings}>
+              Privacy settings
+            </button>
+          )}
         </div>
 
-        <div style={styles.inputContainer}>
-          <input
-            style={styles.input}
-            className="comments-input"
-            type="text"
-            placeholder="Type a comment..."
-            aria-label="Type a live comment"
-            maxLength={200}
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyPress={handleInputSubmit}
-          />
-        </div>
+        {canReviewQueue && !showModerationPanel && (
+          <button
+            style={styles.queueToggle}
+            onClick={() => setShowModerationPanel(true)}
+            aria-label={`Open moderation queue, ${moderationQueue.length} pending`}
+          >
+            Review queue ({moderationQueue.length})
+          </button>
+        )}
+        {canReviewQueue && showModerationPanel && renderModerationPanel()}
 
-        {showConsentBanner && <ConsentBanner />}
+        {consentPromptOpen && (renderConsent
+          ? renderConsent(consentProps)
+          : <ConsentBanner {...consentProps} styles={styles} />)}
       </>
     );
   }
@@ -638,9 +2403,11 @@ const LiveCommentsDemo: React.FC = () => {
   const commentsRef = useRef<LiveCommentsOverlayRef>(null);
   const [isVideoPlaying, setIsVideoPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [userRole, setUserRole] = useState<'user' | 'admin'>('user');
+  const [userRole, setUserRole] = useState<UserRole>('viewer');
   const [websocketUrl, setWebsocketUrl] = useState('ws://localhost:8080');
   const [moderationEnabled, setModerationEnabled] = useState(true);
+  const [displayMode, setDisplayMode] = useState<'list' | 'danmaku' | 'ticker'>('list');
+  const [theme, setTheme] = useState<ThemePreset | 'auto'>('default');
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -678,15 +2445,18 @@ const LiveCommentsDemo: React.FC = () => {
     backend: 'websocket',
     websocketUrl: websocketUrl,
     moderationEnabled: moderationEnabled,
+    displayMode: displayMode,
     maxCommentsVisible: 50,
     commentDisplayDuration: 8000,
     profanityFilter: true,
-    userRole: userRole,
+    // The in-memory and Firebase transports trust claimed roles; a real server decides them itself
+    currentUser: { id: 'demo-viewer', displayName: 'Demo Viewer', roles: [userRole] },
     gdprCompliance: true,
-    theme: 'default',
+    theme: theme,
     onCommentReceived: (comment) => console.log('📨 Comment received:', comment),
     onCommentFiltered: (comment) => console.log('🚫 Comment filtered:', comment),
     onModerationAction: (id, action) => console.log('🛡️ Moderation action:', id, action),
+    onRateLimited: (verdict) => console.log('⏳ Rate limited:', verdict),
     onWebSocketConnect: () => console.log('🔌 WebSocket connected'),
     onWebSocketDisconnect: () => console.log('🔌 WebSocket disconnected')
   };
@@ -934,13 +2704,44 @@ const LiveCommentsDemo: React.FC = () => {
             <select
               style={demoStyles.select}
               value={userRole}
-              onChange={(e) => setUserRole(e.target.value as 'user' | 'admin')}
+              onChange={(e) => setUserRole(e.target.value as UserRole)}
             >
-              <option value="user">👤 User</option>
+              <option value="viewer">👤 Viewer</option>
+              <option value="vip">⭐ VIP</option>
+              <option value="moderator">🛡️ Moderator</option>
+              <option value="broadcaster">🎥 Broadcaster</option>
               <option value="admin">👑 Admin</option>
             </select>
           </div>
 
+          <div style={demoStyles.formGroup}>
+            <label style={demoStyles.label}>Display Mode:</label>
+            <select
+              style={demoStyles.select}
+              value={displayMode}
+              onChange={(e) => setDisplayMode(e.target.value as 'list' | 'danmaku' | 'ticker')}
+            >
+              <option value="list">📋 List</option>
+              <option value="danmaku">💨 Danmaku</option>
+              <option value="ticker">📰 Ticker</option>
+            </select>
+          </div>
+
+          <div style={demoStyles.formGroup}>
+            <label style={demoStyles.label}>Theme:</label>
+            <select
+              style={demoStyles.select}
+              value={theme}
+              onChange={(e) => setTheme(e.target.value as ThemePreset | 'auto')}
+            >
+              <option value="default">🎨 Default</option>
+              <option value="dark">🌙 Dark</option>
+              <option value="light">☀️ Light</option>
+              <option value="high-contrast">🔲 High contrast</option>
+              <option value="auto">🖥️ Follow system</option>
+            </select>
+          </div>
+
           <div style={demoStyles.formGroup}>
             <label style={demoStyles.label}>WebSocket URL:</label>
             <input
@@ -1000,7 +2801,6 @@ const sampleConfig: LiveCommentsConfig = {
   maxCommentsVisible: 50,
   commentDisplayDuration: 5000,
   profanityFilter: true,
-  userRole: 'user',
   gdprCompliance: true,
   theme: 'default',
   onCommentReceived: (comment) => console.log('Comment received:', comment),
@@ -1012,5 +2812,110 @@ const sampleConfig: LiveCommentsConfig = {
 
 // Export the demo page as default
 export default LiveCommentsDemo;
-export { LiveCommentsOverlay };
-export type { LiveCommentsConfig, LiveCommentsOverlayProps, LiveCommentsOverlayRef, Comment };
+export {
+  LiveCommentsOverlay,
+  useLiveComments,
+  createLiveCommentsStore,
+  createInMemoryFirebaseAdapter,
+  createWebSocketTransport,
+  createServerSentEventsTransport,
+  createLongPollingTransport,
+  createFirebaseTransport,
+  createInMemoryTransport,
+  createContentFilter,
+  createRateLimiter,
+  tokenizeMessage,
+  XSS_CORPUS,
+  checkThemeContrast,
+  getContrastRatio,
+  themePresets,
+  defaultRolePermissions,
+  moderationCapabilities,
+  resolvePermissions,
+  isEmoteOnly,
+  parseProtocolMessage,
+  encodeProtocolMessage,
+  PROTOCOL_VERSION
+};
+export type {
+  LiveCommentsConfig,
+  LiveCommentsOverlayProps,
+  LiveCommentsOverlayRef,
+  LiveCommentsClassNames,
+  CommentRenderProps,
+  AdminControlsRenderProps,
+  ConsentRenderProps,
+  InputRenderProps,
+  EmptyStateRenderProps,
+  LiveComments,
+  LiveCommentsState,
+  LiveCommentsActions,
+  LiveCommentsStore,
+  UseLiveCommentsOptions,
+  SendRestriction,
+  SendCommentOptions,
+  Comment,
+  FirebaseBackendConfig,
+  FirebaseCommentsAdapter,
+  CommentTransport,
+  CommentTransportHandlers,
+  TransportStatus,
+  ModerationAction,
+  UserModerationAction,
+  ConsentPurpose,
+  ConsentRecord,
+  ConsentManager,
+  PrivacyEvent,
+  UserDataExport,
+  ErasureResult,
+  DataSubjectRequestPayload,
+  DataExportPayload,
+  ErasureResultPayload,
+  ChannelModes,
+  ThemePreset,
+  ThemeTokens,
+  CustomTheme,
+  ThemeSetting,
+  ContrastIssue,
+  DanmakuOptions,
+  RichTextConfig,
+  RichTextToken,
+  EmoteSet,
+  ContentFilterConfig,
+  RateLimitConfig,
+  RateLimitVerdict,
+  FilterRule,
+  FilterAction,
+  FilterMatch,
+  FilterVerdict,
+  ModerationReason,
+  ModerationOptions,
+  PinOptions,
+  PinnedComment,
+  ModerationQueueItem,
+  ReconnectOptions,
+  WebSocketTransportOptions,
+  HttpTransportOptions,
+  InMemoryTransport,
+  ProtocolMessage,
+  ProtocolError,
+  ProtocolParseResult,
+  ModerationPayload,
+  PresencePayload,
+  PresenceState,
+  PresenceChange,
+  TypingPayload,
+  AckPayload,
+  ServerErrorPayload,
+  HistoryPayload,
+  HistoryRequestPayload,
+  HeartbeatPayload,
+  RoomPayload,
+  ReactionPayload,
+  ReactionCountsPayload,
+  UserIdentity,
+  UserRole,
+  Capability,
+  AuthPayload,
+  AuthResultPayload
+};
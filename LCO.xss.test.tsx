@@ -0,0 +1,143 @@
+/**
+ * XSS corpus tests for the rich-text tokenizer and the overlay's comment renderer
+ * Run with `npx tsx --test LCO.xss.test.tsx` (needs react, react-dom and jsdom)
+ */
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import type { Comment, RichTextConfig, RichTextToken } from './LCO';
+
+const richText: RichTextConfig = {
+  allowedLinkDomains: ['example.com'],
+  emoteSets: [{ id: 'test', emotes: { kappa: 'https://cdn.example.com/kappa.png', evil: 'javascript:alert(1)' } }]
+};
+
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value);
+
+const isAllowedHost = (href: string) => {
+  const host = new URL(href).hostname;
+  return host === 'example.com' || host.endsWith('.example.com');
+};
+
+const collectTokens = (tokens: RichTextToken[]): RichTextToken[] => tokens.flatMap(token => (
+  token.type === 'bold' || token.type === 'italic' ? [token, ...collectTokens(token.children)] : [token]
+));
+
+// React and the overlay read the DOM globals when they load, so they are imported after these exist
+const dom = new JSDOM('<!doctype html><div id="root"></div>', { url: 'https://host.test/' });
+const globals: Record<string, unknown> = {
+  window: dom.window,
+  document: dom.window.document,
+  navigator: dom.window.navigator,
+  localStorage: dom.window.localStorage,
+  HTMLElement: dom.window.HTMLElement,
+  HTMLMediaElement: dom.window.HTMLMediaElement,
+  requestAnimationFrame: (callback: FrameRequestCallback) => setTimeout(() => callback(Date.now()), 16),
+  cancelAnimationFrame: clearTimeout,
+  IS_REACT_ACT_ENVIRONMENT: true
+};
+Object.entries(globals).forEach(([name, value]) => {
+  Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+});
+dom.window.matchMedia = ((query: string) => ({
+  matches: false,
+  media: query,
+  addEventListener: () => {},
+  removeEventListener: () => {}
+})) as unknown as typeof dom.window.matchMedia;
+
+let unmount: (() => Promise<void>) | null = null;
+
+after(async () => {
+  await unmount?.();
+  dom.window.close();
+});
+
+test('tokenizeMessage only links allow-listed http(s) hosts and only embeds http(s) emotes', async () => {
+  const { tokenizeMessage, XSS_CORPUS } = await import('./LCO');
+
+  for (const message of XSS_CORPUS) {
+    for (const token of collectTokens(tokenizeMessage(message, richText))) {
+      if (token.type === 'link') {
+        assert.ok(isHttpUrl(token.href), `${message}: link to ${token.href}`);
+        assert.ok(isAllowedHost(token.href), `${message}: link to a host that is not allow-listed (${token.href})`);
+      }
+      if (token.type === 'emote') {
+        assert.ok(isHttpUrl(token.url), `${message}: emote from ${token.url}`);
+      }
+    }
+  }
+});
+
+test('tokenizeMessage does not link look-alike hosts', async () => {
+  const { tokenizeMessage } = await import('./LCO');
+  const lookAlikes = [
+    'https://example.com.evil.com/',
+    'https://example.com@evil.com/',
+    'https://exаmple.com/',
+    'https://notexample.com/'
+  ];
+
+  for (const message of lookAlikes) {
+    const links = collectTokens(tokenizeMessage(message, richText)).filter(token => token.type === 'link');
+    assert.deepEqual(links, [], message);
+  }
+  const [link] = tokenizeMessage('https://www.example.com/watch', richText);
+  assert.equal(link.type, 'link');
+});
+
+test('the overlay renders every corpus message without markup, handlers or unsafe URLs', async () => {
+  const React = await import('react');
+  const { act } = React;
+  const { createRoot } = await import('react-dom/client');
+  const { LiveCommentsOverlay, createInMemoryTransport, XSS_CORPUS } = await import('./LCO');
+
+  const history: Comment[] = XSS_CORPUS.map((text, index) => ({
+    id: `xss_${index}`,
+    username: 'attacker',
+    text,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString()
+  }));
+  const transport = createInMemoryTransport({ history });
+  const container = dom.window.document.getElementById('root')!;
+  const root = createRoot(container);
+  unmount = () => act(async () => root.unmount());
+
+  await act(async () => {
+    root.render(
+      <LiveCommentsOverlay
+        config={{ transport, gdprCompliance: false, profanityFilter: false, persistentLog: true, richText }}
+      />
+    );
+  });
+  await act(async () => {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  });
+
+  const rendered = container.querySelectorAll('[data-comment-id^="xss_"]');
+  assert.equal(rendered.length, XSS_CORPUS.length, 'every corpus message is rendered');
+
+  assert.equal(container.querySelectorAll('script, iframe, svg, object, embed, style, math').length, 0);
+
+  container.querySelectorAll('*').forEach(element => {
+    Array.from(element.attributes).forEach(attribute => {
+      assert.ok(!/^on/i.test(attribute.name), `<${element.tagName.toLowerCase()} ${attribute.name}>`);
+    });
+  });
+
+  container.querySelectorAll('[href], [src]').forEach(element => {
+    const url = element.getAttribute('href') ?? element.getAttribute('src')!;
+    assert.ok(isHttpUrl(url), `<${element.tagName.toLowerCase()}> pointing at ${url}`);
+  });
+
+  rendered.forEach(comment => {
+    comment.querySelectorAll('a').forEach(link => {
+      assert.equal(link.getAttribute('rel'), 'noopener nofollow');
+      assert.ok(isAllowedHost(link.href), `linked ${link.href}`);
+    });
+  });
+  const linkedHosts = Array.from(container.querySelectorAll<HTMLAnchorElement>('[data-comment-id^="xss_"] a'))
+    .map(link => new URL(link.href).hostname);
+  assert.ok(!linkedHosts.includes('example.com.evil.com'));
+  assert.ok(linkedHosts.includes('example.com'), 'allow-listed links are still rendered');
+});
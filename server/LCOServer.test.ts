@@ -0,0 +1,107 @@
+/**
+ * Integration tests for the reference server, driven through the overlay's WebSocket transport
+ * Run with `npx tsx --test server/LCOServer.test.ts` (needs ws)
+ */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { createLiveCommentsServer } from './LCOServer';
+import type { LiveCommentsServer } from './LCOServer';
+import { createWebSocketTransport } from '../LCOCore';
+import type { CommentTransport, CommentTransportHandlers, UserIdentity } from '../LCOCore';
+
+// Node 20 has no global WebSocket; `ws` speaks the same onopen / onmessage interface
+if (typeof globalThis.WebSocket === 'undefined') {
+  Object.defineProperty(globalThis, 'WebSocket', { value: WebSocket, configurable: true, writable: true });
+}
+
+const identities: Record<string, UserIdentity> = {
+  'viewer-token': { id: 'viewer_1', displayName: 'Viewer' },
+  'friend-token': { id: 'viewer_2', displayName: 'Friend' },
+  'moderator-token': { id: 'moderator_1', displayName: 'Moderator', roles: ['moderator'] }
+};
+
+let server: LiveCommentsServer;
+const transports: CommentTransport[] = [];
+
+before(async () => {
+  server = await createLiveCommentsServer({
+    port: 0,
+    verifyToken: token => identities[token] || null,
+    log: () => {}
+  });
+});
+
+after(async () => {
+  transports.forEach(transport => transport.disconnect());
+  await server.close();
+});
+
+type Handler<K extends keyof CommentTransportHandlers> = CommentTransportHandlers[K];
+
+// Resolves with the first `event` that passes `match`; subscribe before triggering it
+const waitFor = <K extends keyof CommentTransportHandlers>(
+  transport: CommentTransport,
+  event: K,
+  match: (...args: Parameters<Handler<K>>) => boolean = () => true,
+  timeoutMs = 2000
+) => new Promise<Parameters<Handler<K>>[0]>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    unsubscribe();
+    reject(new Error(`Timed out waiting for ${event}`));
+  }, timeoutMs);
+  const handler = ((...args: Parameters<Handler<K>>) => {
+    if (!match(...args)) return;
+    clearTimeout(timer);
+    unsubscribe();
+    resolve(args[0]);
+  }) as Handler<K>;
+  const unsubscribe = transport.subscribe({ [event]: handler });
+});
+
+const connectAs = async (token: string) => {
+  const transport = createWebSocketTransport({ url: server.url, heartbeatInterval: 0, maxReconnectAttempts: 0 });
+  transports.push(transport);
+  const connected = waitFor(transport, 'onStatusChange', status => status === 'connected');
+  transport.connect();
+  await connected;
+  const authenticated = waitFor(transport, 'onAuthenticated');
+  transport.authenticate!({ token });
+  const user = await authenticated;
+  assert.equal(user.id, identities[token].id);
+  return transport;
+};
+
+test('a comment is acknowledged, broadcast to the room and removed by a moderator', async () => {
+  const viewer = await connectAs('viewer-token');
+  const friend = await connectAs('friend-token');
+  const moderator = await connectAs('moderator-token');
+
+  const acked = waitFor(viewer, 'onAck', ack => ack.id === 'client_1');
+  const delivered = waitFor(friend, 'onComment', comment => comment.clientId === 'client_1');
+  // The server assigns identity, id and time; the claimed username is ignored
+  viewer.send({ id: 'client_1', username: 'Someone else', text: 'Hello room', timestamp: new Date().toISOString() });
+
+  const ack = await acked;
+  const comment = await delivered;
+  assert.equal(ack.serverId, comment.id);
+  assert.notEqual(comment.id, 'client_1');
+  assert.equal(comment.userId, 'viewer_1');
+  assert.equal(comment.username, 'Viewer');
+  assert.equal(comment.text, 'Hello room');
+  assert.deepEqual(server.getHistory().map(stored => stored.id), [comment.id]);
+
+  const forbidden = waitFor(viewer, 'onServerError', error => error.code === 'forbidden');
+  viewer.moderate({ commentId: comment.id, action: 'delete' });
+  await forbidden;
+  assert.equal(server.getHistory().length, 1, 'viewers cannot moderate');
+
+  const moderated = waitFor(friend, 'onModeration', moderation => moderation.commentId === comment.id);
+  moderator.moderate({ commentId: comment.id, action: 'delete', reason: 'spam' });
+  const moderation = await moderated;
+  assert.equal(moderation.action, 'delete');
+  assert.equal(moderation.reason, 'spam');
+  assert.equal(moderation.userId, 'viewer_1');
+  assert.ok(moderation.issuedAt);
+  assert.deepEqual(server.getHistory(), []);
+});
@@ -0,0 +1,822 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  parseProtocolMessage,
+  encodeProtocolMessage,
+  createContentFilter,
+  createRateLimiter,
+  resolvePermissions,
+  moderationCapabilities,
+  isEmoteOnly
+} from '../LCOCore';
+import type {
+  Comment,
+  ModerationPayload,
+  ChannelModes,
+  UserIdentity,
+  UserRole,
+  Capability,
+  AuthPayload,
+  HistoryRequestPayload,
+  RoomPayload,
+  ReactionPayload,
+  TypingPayload,
+  DataSubjectRequestPayload,
+  ServerErrorPayload,
+  ContentFilterConfig,
+  RateLimitConfig
+} from '../LCOCore';
+
+/**
+ * LCOServer - reference WebSocket server for LiveCommentsOverlay
+ * Speaks the overlay's envelope protocol, so `websocketUrl: 'ws://localhost:8080'` works end to end
+ *
+ * Running it:
+ * - `npx tsx server/LCOServer.ts` listens on ws://localhost:8080 (`PORT` and `HOST` override)
+ * - Integration tests call `createLiveCommentsServer({ port: 0 })` and connect to the returned `url`
+ *   (`npx tsx --test server/LCOServer.test.ts`)
+ * - Only needs `ws` and `LCOCore.ts`; React and the overlay are never loaded
+ *
+ * What the server is responsible for:
+ * - Assigning comment ids and timestamps; acks carry the sender's client id and the server id,
+ *   and resent comments (same client id) are acknowledged again instead of duplicated
+ * - Rate limiting per user (token bucket, answered with 'rate_limited' and `retryAfterMs`),
+ *   channel modes, bans and timeouts, and the content filter (drop, mask or quarantine)
+ * - Moderation from connections whose identity grants the matching capability
+ * - A bounded history for backfill and "load older", plus the current channel modes and pin for late joiners
+ * - Rooms: each connection is in one room at a time ('join' / 'leave', the default room otherwise);
+ *   history, moderation, channel modes, pins, rate limits and broadcasts are all per room
+ * - Reactions counted per user, data export and erasure, heartbeat pongs
+ * - Presence: a viewer count per room (distinct users, sent on joins and leaves at most once per
+ *   `presenceIntervalMs`), the viewer list for 'viewers.list' holders, and relaying typing updates
+ *
+ * Identity:
+ * - With `verifyToken`, the token decides who the connection is, including roles
+ * - Without it, the claimed user is accepted but its roles and follower/subscriber flags are
+ *   dropped (set `trustClaimedRoles` for local development only)
+ * - Connections that never authenticate post as guests
+ */
+
+interface LiveCommentsServerOptions {
+  port?: number; // 8080 by default, 0 picks a free port
+  host?: string;
+  server?: Server | null; // Attach to an existing HTTP server instead of listening
+  path?: string;
+  verifyToken?: ((token: string) => UserIdentity | null | Promise<UserIdentity | null>) | null;
+  trustClaimedRoles?: boolean; // Development only: accept roles sent by the client
+  requireAuth?: boolean; // Reject comments from connections that haven't authenticated
+  rolePermissions?: Partial<Record<UserRole, Capability[]>>;
+  rateLimit?: RateLimitConfig;
+  contentFilter?: ContentFilterConfig | false; // `false` disables server-side filtering
+  maxHistory?: number; // Comments kept for backfill, 500 by default
+  maxHistoryPage?: number; // Upper bound for `history_request.limit`, 100 by default
+  maxTextLength?: number; // 500 by default
+  allowedOrigins?: string[]; // Browser origins allowed to connect, any by default
+  heartbeatIntervalMs?: number; // Sockets that miss a ping for this long are dropped, 30 s by default
+  presenceIntervalMs?: number; // Presence snapshots are batched over this window, 1 s by default
+  log?: (message: string, ...details: unknown[]) => void;
+}
+
+interface LiveCommentsServer {
+  url: string;
+  port: number;
+  getHistory: (roomId?: string) => Comment[];
+  getChannelModes: (roomId?: string) => ChannelModes;
+  close: () => Promise<void>;
+}
+
+interface ClientConnection {
+  id: string;
+  socket: WebSocket;
+  user: UserIdentity;
+  authenticated: boolean;
+  permissions: Set<Capability>;
+  roomId: string; // '' for the default room
+  isTyping: boolean;
+  isAlive: boolean;
+}
+
+interface RoomState {
+  history: Comment[]; // Oldest first
+  quarantined: Map<string, Comment>;
+  channelModes: ChannelModes;
+  activePin: ModerationPayload | null;
+  reactions: Map<string, Map<string, Set<string>>>; // commentId -> emoji -> userIds
+  restrictions: Map<string, number>; // userId -> ban/timeout expiry (ms), Infinity for bans
+  shadowBanned: Set<string>;
+  lastCommentAt: Map<string, number>; // userId -> ms, for slow mode
+  deliveredClientIds: Map<string, string>; // clientId -> serverId, for resent comments
+  rateLimiters: Map<string, ReturnType<typeof createRateLimiter>>; // userId -> limiter
+}
+
+const createRoomState = (): RoomState => ({
+  history: [],
+  quarantined: new Map(),
+  channelModes: {},
+  activePin: null,
+  reactions: new Map(),
+  restrictions: new Map(),
+  shadowBanned: new Set(),
+  lastCommentAt: new Map(),
+  deliveredClientIds: new Map(),
+  rateLimiters: new Map()
+});
+
+const createLiveCommentsServer = async ({
+  port = 8080,
+  host,
+  server = null,
+  path,
+  verifyToken = null,
+  trustClaimedRoles = false,
+  requireAuth = false,
+  rolePermissions = {},
+  rateLimit = {},
+  contentFilter = {},
+  maxHistory = 500,
+  maxHistoryPage = 100,
+  maxTextLength = 500,
+  allowedOrigins,
+  heartbeatIntervalMs = 30000,
+  presenceIntervalMs = 1000,
+  log = (message, ...details) => console.log(`[LCOServer] ${message}`, ...details)
+}: LiveCommentsServerOptions = {}): Promise<LiveCommentsServer> => {
+  const rooms = new Map<string, RoomState>(); // roomId -> state, '' is the default room
+  const connections = new Set<ClientConnection>();
+  const presenceTimers = new Map<string, ReturnType<typeof setTimeout>>(); // roomId -> pending snapshot
+  let isClosing = false;
+  const filter = contentFilter === false ? null : createContentFilter(contentFilter);
+  let nextConnectionId = 1;
+  let nextCommentId = 1;
+
+  const httpServer = server || createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('LiveCommentsOverlay server: connect with a WebSocket');
+  });
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path,
+    maxPayload: 64 * 1024,
+    verifyClient: allowedOrigins
+      ? ({ origin }: { origin: string }) => allowedOrigins.includes(origin)
+      : undefined
+  });
+
+  const send = (connection: ClientConnection, frame: string) => {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(frame);
+    }
+  };
+
+  const getRoom = (roomId: string) => {
+    let room = rooms.get(roomId);
+    if (!room) {
+      room = createRoomState();
+      rooms.set(roomId, room);
+    }
+    return room;
+  };
+
+  // Rooms nobody is in and nothing was posted to aren't worth keeping
+  const releaseRoom = (roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || room.history.length > 0 || room.quarantined.size > 0 || room.activePin) return;
+    if (Object.keys(room.channelModes).length > 0 || room.restrictions.size > 0 || room.shadowBanned.size > 0) return;
+    for (const connection of connections) {
+      if (connection.roomId === roomId) return;
+    }
+    rooms.delete(roomId);
+  };
+
+  // Only reaches connections in `roomId`
+  const broadcast = (
+    roomId: string,
+    frame: string,
+    recipients: (connection: ClientConnection) => boolean = () => true
+  ) => {
+    connections.forEach(connection => {
+      if (connection.roomId === roomId && recipients(connection) && connection.socket.readyState === WebSocket.OPEN) {
+        connection.socket.send(frame);
+      }
+    });
+  };
+
+  // What other viewers may learn about a user
+  const toPublicIdentity = ({ id, displayName, avatarUrl, roles }: UserIdentity): UserIdentity => ({
+    id,
+    displayName,
+    ...(avatarUrl ? { avatarUrl } : {}),
+    ...(roles ? { roles } : {})
+  });
+
+  const sendPresence = (roomId: string) => {
+    presenceTimers.delete(roomId);
+    const viewers = new Map<string, UserIdentity>();
+    connections.forEach(connection => {
+      if (connection.roomId === roomId) viewers.set(connection.user.id, toPublicIdentity(connection.user));
+    });
+    const counted = encodeProtocolMessage('presence', { viewerCount: viewers.size });
+    const listed = encodeProtocolMessage('presence', { viewerCount: viewers.size, viewers: Array.from(viewers.values()) });
+    connections.forEach(connection => {
+      if (connection.roomId === roomId) send(connection, connection.permissions.has('viewers.list') ? listed : counted);
+    });
+  };
+
+  // Joins and leaves come in bursts (page loads, reconnect storms); one snapshot covers the burst
+  const schedulePresence = (roomId: string) => {
+    if (isClosing || presenceTimers.has(roomId)) return;
+    presenceTimers.set(roomId, setTimeout(() => sendPresence(roomId), presenceIntervalMs));
+  };
+
+  const stopTyping = (connection: ClientConnection) => {
+    if (!connection.isTyping) return;
+    connection.isTyping = false;
+    broadcast(
+      connection.roomId,
+      encodeProtocolMessage('typing', { active: false, user: toPublicIdentity(connection.user) }),
+      recipient => recipient !== connection
+    );
+  };
+
+  const sendError = (connection: ClientConnection, error: ServerErrorPayload) => {
+    send(connection, encodeProtocolMessage('error', error));
+  };
+
+  const setIdentity = (connection: ClientConnection, user: UserIdentity, authenticated: boolean) => {
+    connection.user = user;
+    connection.authenticated = authenticated;
+    connection.permissions = resolvePermissions(authenticated ? user : null, rolePermissions);
+  };
+
+  const isRestricted = (room: RoomState, userId: string): number => {
+    const until = room.restrictions.get(userId);
+    if (until === undefined) return 0;
+    if (until > Date.now()) return until;
+    room.restrictions.delete(userId);
+    return 0;
+  };
+
+  const getRateLimiter = (room: RoomState, userId: string) => {
+    let limiter = room.rateLimiters.get(userId);
+    if (!limiter) {
+      limiter = createRateLimiter(rateLimit);
+      room.rateLimiters.set(userId, limiter);
+    }
+    return limiter;
+  };
+
+  const findComment = (room: RoomState, commentId: string) => room.history.find(comment => comment.id === commentId);
+
+  const removeComments = (room: RoomState, matches: (comment: Comment) => boolean) => {
+    room.history = room.history.filter(comment => !matches(comment));
+    room.quarantined.forEach((comment, id) => {
+      if (matches(comment)) room.quarantined.delete(id);
+    });
+  };
+
+  const handleAuth = async (connection: ClientConnection, { token, user }: AuthPayload) => {
+    if (verifyToken) {
+      if (!token) {
+        sendError(connection, { code: 'auth_failed', message: 'A token is required' });
+        return;
+      }
+      try {
+        const verified = await verifyToken(token);
+        if (!verified) {
+          sendError(connection, { code: 'auth_failed', message: 'Invalid token' });
+          return;
+        }
+        setIdentity(connection, verified, true);
+      } catch (error) {
+        log('Token verification failed', error);
+        sendError(connection, { code: 'auth_failed', message: 'Token verification failed' });
+        return;
+      }
+    } else if (user) {
+      const { roles, permissions, isFollower, isSubscriber, ...claimed } = user;
+      setIdentity(connection, trustClaimedRoles ? user : claimed, true);
+    } else {
+      sendError(connection, { code: 'auth_failed', message: 'No credentials' });
+      return;
+    }
+    send(connection, encodeProtocolMessage('auth_ok', { user: connection.user }));
+    // The guest became a known user, and may now be allowed to see the viewer list
+    schedulePresence(connection.roomId);
+  };
+
+  // Why `user` can't post under the current channel modes, or null
+  const checkChannelModes = (connection: ClientConnection, room: RoomState, text: string): ServerErrorPayload | null => {
+    if (connection.permissions.has('chat.bypass_modes')) return null;
+    const { slowModeMs, followersOnly, subscribersOnly, emoteOnly } = room.channelModes;
+    const { id, isFollower, isSubscriber } = connection.user;
+
+    if (subscribersOnly && !isSubscriber) {
+      return { code: 'subscribers_only', message: 'Only subscribers can chat right now' };
+    }
+    if (followersOnly && !isFollower && !isSubscriber) {
+      return { code: 'followers_only', message: 'Only followers can chat right now' };
+    }
+    if (emoteOnly && !isEmoteOnly(text)) {
+      return { code: 'emote_only', message: 'Only emotes and emoji are allowed right now' };
+    }
+    if (slowModeMs) {
+      const wait = (room.lastCommentAt.get(id) || 0) + slowModeMs - Date.now();
+      if (wait > 0) {
+        return { code: 'rate_limited', message: 'Slow mode is on', retryAfterMs: wait };
+      }
+    }
+    return null;
+  };
+
+  const handleComment = async (connection: ClientConnection, incoming: Comment) => {
+    const clientId = incoming.clientId || incoming.id;
+    const reject = (error: Omit<ServerErrorPayload, 'commentId'>) => sendError(connection, { ...error, commentId: clientId });
+    const { roomId } = connection;
+    const room = getRoom(roomId);
+
+    // A comment resent from the outbox after a reconnect
+    const deliveredAs = room.deliveredClientIds.get(clientId);
+    if (deliveredAs) {
+      send(connection, encodeProtocolMessage('ack', { id: clientId, serverId: deliveredAs }));
+      return;
+    }
+    if ((incoming.roomId || '') !== roomId) {
+      reject({ code: 'invalid_comment', message: 'The comment is for a room this connection has not joined' });
+      return;
+    }
+    if (requireAuth && !connection.authenticated) {
+      reject({ code: 'unauthenticated', message: 'Sign in to chat' });
+      return;
+    }
+    const text = incoming.text.trim();
+    if (!text || text.length > maxTextLength) {
+      reject({ code: 'invalid_comment', message: `Comments must be 1-${maxTextLength} characters` });
+      return;
+    }
+
+    const { user } = connection;
+    const restrictedUntil = isRestricted(room, user.id);
+    if (restrictedUntil) {
+      reject(restrictedUntil === Infinity
+        ? { code: 'banned', message: 'You are banned from this chat' }
+        : { code: 'timed_out', message: 'You are timed out', retryAfterMs: restrictedUntil - Date.now() });
+      return;
+    }
+    const modeError = checkChannelModes(connection, room, text);
+    if (modeError) {
+      reject(modeError);
+      return;
+    }
+    const verdict = getRateLimiter(room, user.id).consume(text);
+    if (!verdict.allowed) {
+      reject({
+        code: 'rate_limited',
+        message: verdict.reason === 'duplicate' ? 'Duplicate comment' : 'Too many comments',
+        retryAfterMs: verdict.retryAfterMs
+      });
+      return;
+    }
+
+    // Only fields the client may choose are copied; identity, id and time come from the server
+    const comment: Comment = {
+      id: `srv_${nextCommentId++}`,
+      clientId,
+      userId: user.id,
+      username: user.displayName,
+      text,
+      timestamp: new Date().toISOString()
+    };
+    if (user.avatarUrl) comment.avatarUrl = user.avatarUrl;
+    if (roomId) comment.roomId = roomId;
+    if (incoming.mediaTime !== undefined) comment.mediaTime = incoming.mediaTime;
+    if (incoming.position && connection.permissions.has('comment.highlight')) comment.position = incoming.position;
+    if (incoming.replyTo) comment.replyTo = incoming.replyTo;
+
+    if (filter) {
+      const customFilter = contentFilter ? contentFilter.customFilter : undefined;
+      const baseVerdict = filter.check(text);
+      const filtered = (customFilter ? await customFilter(comment, baseVerdict) : undefined) || baseVerdict;
+      if (filtered.action === 'drop') {
+        reject({ code: 'filtered', message: 'Comment blocked by the content filter' });
+        return;
+      }
+      if (filtered.action === 'mask') {
+        comment.text = filtered.text;
+      }
+      if (filtered.action === 'quarantine') {
+        // Held for review: the author gets an ack, only queue reviewers see it
+        const held: Comment = { ...comment, status: 'quarantined' };
+        room.quarantined.set(held.id, held);
+        room.deliveredClientIds.set(clientId, held.id);
+        send(connection, encodeProtocolMessage('ack', { id: clientId, serverId: held.id }));
+        broadcast(roomId, encodeProtocolMessage('comment', held), recipient => recipient.permissions.has('queue.review'));
+        return;
+      }
+    }
+
+    connection.isTyping = false;
+    room.lastCommentAt.set(user.id, Date.now());
+    room.deliveredClientIds.set(clientId, comment.id);
+    send(connection, encodeProtocolMessage('ack', { id: clientId, serverId: comment.id }));
+
+    // Shadow-banned users see their own comments; nobody else does, and they aren't kept
+    if (room.shadowBanned.has(user.id)) {
+      broadcast(roomId, encodeProtocolMessage('comment', comment), recipient => recipient.user.id === user.id);
+      return;
+    }
+
+    room.history.push(comment);
+    if (room.history.length > maxHistory) {
+      room.history.splice(0, room.history.length - maxHistory);
+    }
+    if (room.deliveredClientIds.size > maxHistory * 2) {
+      const oldest = room.deliveredClientIds.keys().next().value;
+      if (oldest !== undefined) room.deliveredClientIds.delete(oldest);
+    }
+    broadcast(roomId, encodeProtocolMessage('comment', comment));
+  };
+
+  const handleModeration = (connection: ClientConnection, moderation: ModerationPayload) => {
+    const { action, commentId } = moderation;
+    const required = moderationCapabilities[action];
+    if (!connection.permissions.has(required)) {
+      sendError(connection, { code: 'forbidden', message: `"${action}" requires the "${required}" capability` });
+      return;
+    }
+
+    const room = getRoom(connection.roomId);
+    const target = findComment(room, commentId) || room.quarantined.get(commentId);
+    const userId = moderation.userId || target?.userId;
+    const applied: ModerationPayload = { ...moderation, issuedAt: new Date().toISOString() };
+    if (userId) applied.userId = userId;
+    let recipients: (recipient: ClientConnection) => boolean = () => true;
+
+    switch (action) {
+      case 'highlight':
+        if (target) target.highlighted = true;
+        break;
+      case 'quarantine':
+        if (target && !room.quarantined.has(commentId)) {
+          room.history = room.history.filter(comment => comment.id !== commentId);
+          room.quarantined.set(commentId, { ...target, status: 'quarantined' });
+        }
+        break;
+      case 'delete':
+        removeComments(room, comment => comment.id === commentId);
+        room.reactions.delete(commentId);
+        if (room.activePin?.commentId === commentId) room.activePin = null;
+        break;
+      case 'approve': {
+        const held = room.quarantined.get(commentId);
+        if (!held) return;
+        room.quarantined.delete(commentId);
+        const approved: Comment = { ...held, status: 'normal' };
+        room.history.push(approved);
+        room.history.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+        applied.comment = approved;
+        break;
+      }
+      case 'reject':
+        room.quarantined.delete(commentId);
+        break;
+      case 'pin': {
+        const pinned = target && target.status !== 'quarantined'
+          ? target
+          : moderation.comment?.announcement ? moderation.comment : undefined;
+        if (!pinned) {
+          sendError(connection, { code: 'not_found', message: 'Only comments in the stream can be pinned' });
+          return;
+        }
+        if (pinned.announcement) {
+          if (!connection.permissions.has('channel.announce')) {
+            sendError(connection, { code: 'forbidden', message: 'Announcements require the "channel.announce" capability' });
+            return;
+          }
+          applied.comment = {
+            ...pinned,
+            userId: connection.user.id,
+            username: connection.user.displayName,
+            timestamp: applied.issuedAt!
+          };
+        } else {
+          applied.comment = pinned;
+        }
+        room.activePin = applied;
+        break;
+      }
+      case 'unpin':
+        room.activePin = null;
+        break;
+      case 'ban':
+      case 'timeout':
+      case 'shadow_ban':
+      case 'unban':
+      case 'purge':
+        if (!userId) {
+          sendError(connection, { code: 'not_found', message: `"${action}" needs a user` });
+          return;
+        }
+        if (action === 'ban') room.restrictions.set(userId, Infinity);
+        if (action === 'timeout') room.restrictions.set(userId, Date.now() + (moderation.durationMs || 10 * 60 * 1000));
+        if (action === 'unban') {
+          room.restrictions.delete(userId);
+          room.shadowBanned.delete(userId);
+        }
+        if (action === 'shadow_ban') {
+          room.shadowBanned.add(userId);
+          // The target must not learn about it
+          recipients = recipient => recipient.user.id !== userId;
+        }
+        if (action === 'ban' || action === 'timeout' || action === 'purge') {
+          removeComments(room, comment => comment.userId === userId);
+        }
+        break;
+    }
+
+    log(`${connection.user.displayName} (${connection.user.id}) applied "${action}"`, { roomId: connection.roomId, commentId, userId });
+    broadcast(connection.roomId, encodeProtocolMessage('moderation', applied), recipients);
+  };
+
+  const handleChannelModes = (connection: ClientConnection, modes: ChannelModes) => {
+    if (!connection.permissions.has('channel.modes')) {
+      sendError(connection, { code: 'forbidden', message: 'Changing channel modes requires the "channel.modes" capability' });
+      return;
+    }
+    const room = getRoom(connection.roomId);
+    room.channelModes = { ...room.channelModes, ...modes };
+    broadcast(connection.roomId, encodeProtocolMessage('channel_modes', room.channelModes));
+  };
+
+  const handleHistoryRequest = (connection: ClientConnection, { before, limit }: HistoryRequestPayload) => {
+    const { roomId } = connection;
+    const room = rooms.get(roomId) || createRoomState();
+    const pageSize = Math.max(1, Math.min(limit, maxHistoryPage));
+    const older = before ? room.history.filter(comment => comment.timestamp < before) : room.history;
+    send(connection, encodeProtocolMessage('history', {
+      comments: older.slice(-pageSize),
+      hasMore: older.length > pageSize,
+      ...(roomId ? { roomId } : {})
+    }));
+
+    if (before) return;
+    // Initial backfill: everything else a late joiner needs to match the other viewers
+    if (Object.keys(room.channelModes).length > 0) {
+      send(connection, encodeProtocolMessage('channel_modes', room.channelModes));
+    }
+    const pin = room.activePin;
+    if (pin) {
+      const expiresAt = pin.durationMs ? Date.parse(pin.issuedAt!) + pin.durationMs : Infinity;
+      if (expiresAt > Date.now()) send(connection, encodeProtocolMessage('moderation', pin));
+      else room.activePin = null;
+    }
+    if (connection.permissions.has('queue.review')) {
+      room.quarantined.forEach(comment => send(connection, encodeProtocolMessage('comment', comment)));
+    }
+  };
+
+  const handleReaction = (connection: ClientConnection, { commentId, emoji, active }: ReactionPayload) => {
+    const room = getRoom(connection.roomId);
+    const comment = findComment(room, commentId);
+    if (!comment) return;
+    if (isRestricted(room, connection.user.id)) {
+      sendError(connection, { code: 'banned', message: 'You cannot react right now' });
+      return;
+    }
+    const byEmoji = room.reactions.get(commentId) || new Map<string, Set<string>>();
+    room.reactions.set(commentId, byEmoji);
+    const users = byEmoji.get(emoji) || new Set<string>();
+    byEmoji.set(emoji, users);
+    if (active) users.add(connection.user.id);
+    else users.delete(connection.user.id);
+
+    const reactions: Record<string, number> = {};
+    byEmoji.forEach((reacted, key) => {
+      if (reacted.size > 0) reactions[key] = reacted.size;
+    });
+    comment.reactions = reactions;
+    broadcast(connection.roomId, encodeProtocolMessage('reactions', { commentId, reactions }));
+  };
+
+  const handleTyping = (connection: ClientConnection, { active }: TypingPayload) => {
+    if (!active) {
+      stopTyping(connection);
+      return;
+    }
+    if (isRestricted(getRoom(connection.roomId), connection.user.id)) return;
+    connection.isTyping = true;
+    broadcast(
+      connection.roomId,
+      encodeProtocolMessage('typing', { active: true, user: toPublicIdentity(connection.user) }),
+      recipient => recipient !== connection
+    );
+  };
+
+  const handleDataRequest = (connection: ClientConnection, { requestId, kind, userId }: DataSubjectRequestPayload) => {
+    // Users can only ask about themselves
+    if (userId !== connection.user.id) {
+      sendError(connection, { code: 'forbidden', message: 'Data requests are limited to your own data' });
+      return;
+    }
+    // A user's data spans every room they posted in
+    const isOwn = (comment: Comment) => comment.userId === userId;
+    const ownComments = (room: RoomState) => [...room.history, ...room.quarantined.values()].filter(isOwn);
+    if (kind === 'export') {
+      const comments = Array.from(rooms.values()).flatMap(ownComments);
+      send(connection, encodeProtocolMessage('data_export', { requestId, userId, comments }));
+      return;
+    }
+
+    let erasedCount = 0;
+    rooms.forEach((room, roomId) => {
+      const erased = ownComments(room);
+      erasedCount += erased.length;
+      removeComments(room, isOwn);
+      room.reactions.forEach(byEmoji => byEmoji.forEach(users => users.delete(userId)));
+      room.lastCommentAt.delete(userId);
+      room.rateLimiters.delete(userId);
+      erased.forEach(comment => {
+        broadcast(roomId, encodeProtocolMessage('moderation', { commentId: comment.id, action: 'delete' }));
+      });
+    });
+    log(`Erased ${erasedCount} comments for ${userId}`);
+    send(connection, encodeProtocolMessage('erasure_result', { requestId, userId, erasedCount }));
+  };
+
+  // One room per connection: joining another room leaves the current one
+  const handleJoin = (connection: ClientConnection, { roomId }: RoomPayload) => {
+    const previousRoomId = connection.roomId;
+    if (previousRoomId === roomId) return;
+    stopTyping(connection);
+    connection.roomId = roomId;
+    releaseRoom(previousRoomId);
+    schedulePresence(previousRoomId);
+    schedulePresence(roomId);
+    log(`${connection.id} joined room "${roomId}"`);
+  };
+
+  const handleLeave = (connection: ClientConnection, { roomId }: RoomPayload) => {
+    if (connection.roomId !== roomId) return;
+    stopTyping(connection);
+    connection.roomId = '';
+    releaseRoom(roomId);
+    schedulePresence(roomId);
+    schedulePresence('');
+    log(`${connection.id} left room "${roomId}"`);
+  };
+
+  const handleMessage = async (connection: ClientConnection, frame: string) => {
+    const result = parseProtocolMessage(frame);
+    if (!result.ok) {
+      sendError(connection, { code: 'protocol_error', message: result.error.reason });
+      return;
+    }
+
+    const { message } = result;
+    switch (message.type) {
+      case 'auth':
+        await handleAuth(connection, message.payload);
+        break;
+      case 'comment':
+        await handleComment(connection, message.payload);
+        break;
+      case 'moderation':
+        handleModeration(connection, message.payload);
+        break;
+      case 'channel_modes':
+        handleChannelModes(connection, message.payload);
+        break;
+      case 'history_request':
+        handleHistoryRequest(connection, message.payload);
+        break;
+      case 'reaction':
+        handleReaction(connection, message.payload);
+        break;
+      case 'data_request':
+        handleDataRequest(connection, message.payload);
+        break;
+      case 'typing':
+        handleTyping(connection, message.payload);
+        break;
+      case 'join':
+        handleJoin(connection, message.payload);
+        break;
+      case 'leave':
+        handleLeave(connection, message.payload);
+        break;
+      case 'ping':
+        send(connection, encodeProtocolMessage('pong', message.payload));
+        break;
+      default:
+        sendError(connection, { code: 'unsupported', message: `Clients cannot send "${message.type}" messages` });
+    }
+  };
+
+  wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+    const id = `conn_${nextConnectionId++}`;
+    const connection: ClientConnection = {
+      id,
+      socket,
+      user: { id: `guest_${id}`, displayName: 'Guest' },
+      authenticated: false,
+      permissions: new Set(),
+      roomId: '',
+      isTyping: false,
+      isAlive: true
+    };
+    connections.add(connection);
+    schedulePresence(connection.roomId);
+    log(`${id} connected from ${request.socket.remoteAddress}`);
+
+    socket.on('pong', () => {
+      connection.isAlive = true;
+    });
+    socket.on('message', (data, isBinary) => {
+      connection.isAlive = true;
+      if (isBinary) {
+        sendError(connection, { code: 'protocol_error', message: 'Binary frames are not supported' });
+        return;
+      }
+      handleMessage(connection, data.toString()).catch(error => {
+        log(`Failed to handle a message from ${id}`, error);
+        sendError(connection, { code: 'server_error', message: 'The server could not process the message' });
+      });
+    });
+    socket.on('close', () => {
+      stopTyping(connection);
+      connections.delete(connection);
+      releaseRoom(connection.roomId);
+      schedulePresence(connection.roomId);
+      log(`${id} disconnected`);
+    });
+    socket.on('error', error => log(`Socket error on ${id}`, error));
+  });
+
+  // Drop sockets that stopped answering; clients reconnect on their own
+  const heartbeat = setInterval(() => {
+    connections.forEach(connection => {
+      if (!connection.isAlive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.isAlive = false;
+      connection.socket.ping();
+    });
+  }, heartbeatIntervalMs);
+
+  if (!server) {
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(port, host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+  const address = httpServer.address() as AddressInfo;
+  const url = `ws://${host || 'localhost'}:${address.port}${path || ''}`;
+  log(`Listening on ${url}`);
+
+  return {
+    url,
+    port: address.port,
+    getHistory: (roomId = '') => [...(rooms.get(roomId)?.history || [])],
+    getChannelModes: (roomId = '') => ({ ...rooms.get(roomId)?.channelModes }),
+    close: () => new Promise<void>(resolve => {
+      isClosing = true;
+      clearInterval(heartbeat);
+      presenceTimers.forEach(clearTimeout);
+      presenceTimers.clear();
+      connections.forEach(connection => connection.socket.terminate());
+      wss.close(() => {
+        if (server) {
+          resolve();
+          return;
+        }
+        httpServer.close(() => resolve());
+      });
+    })
+  };
+};
+
+// `npx tsx server/LCOServer.ts`
+if (typeof process !== 'undefined' && /LCOServer\.[cm]?[jt]s$/.test(process.argv[1] || '')) {
+  createLiveCommentsServer({
+    port: Number(process.env.PORT) || 8080,
+    host: process.env.HOST
+  })
+    .then(liveServer => {
+      const shutdown = () => {
+        liveServer.close().then(() => process.exit(0));
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    })
+    .catch(error => {
+      console.error('Failed to start the live comments server:', error);
+      process.exit(1);
+    });
+}
+
+export { createLiveCommentsServer };
+export type { LiveCommentsServerOptions, LiveCommentsServer };